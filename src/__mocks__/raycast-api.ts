@@ -0,0 +1,2 @@
+// Stands in for @raycast/api in unit tests, which run outside Raycast. Preferences are empty, so every default applies.
+export const getPreferenceValues = () => ({});
@@ -0,0 +1,306 @@
+import {
+  Action,
+  ActionPanel,
+  Color,
+  Form,
+  Icon,
+  LaunchType,
+  List,
+  Toast,
+  launchCommand,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { useEffect, useRef, useState } from "react";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { findCommandPath } from "./utils/binaries";
+import { BATCH_FILE_EXTENSIONS, parseBatchUrls } from "./utils/batch";
+import { getDefaultFilenameSettings } from "./utils/filename";
+import { Preset, getDefaultPresetId, getPresetDownloadSettings, getPresets } from "./utils/presets";
+import { DownloadJob, enqueueDownload, getJobs, processQueue, retryJob, subscribeToJobs } from "./utils/queue";
+import { getUrlOptions } from "./utils/url";
+
+// Jobs run in whichever command started them, so the summary polls for their progress
+const REFRESH_INTERVAL = 1000;
+
+interface BatchSummaryProps {
+  jobIds: string[];
+  invalid: string[];
+  ytDlpPath: string;
+  ffmpegPath: string;
+}
+
+// Follows the queued batch and ends with a count of what worked, with a way to retry the rest
+function BatchSummary({ jobIds, invalid, ytDlpPath, ffmpegPath }: BatchSummaryProps) {
+  const [jobs, setJobs] = useState<DownloadJob[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // The summary toast is shown once per round; retrying starts a new round
+  const announcedRef = useRef(false);
+
+  const refresh = async () => {
+    const all = await getJobs();
+    setJobs(jobIds.map((id) => all.find((job) => job.id === id)).filter((job): job is DownloadJob => !!job));
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL);
+    const unsubscribe = subscribeToJobs((updated) =>
+      setJobs((current) => current.map((job) => (job.id === updated.id ? updated : job))),
+    );
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, []);
+
+  const done = jobs.filter((job) => job.state === "done");
+  // Cancelled jobs are stored as failed, but were stopped on purpose and aren't retried with the failures
+  const failed = jobs.filter((job) => job.state === "failed" && !job.cancelled);
+  const cancelled = jobs.filter((job) => job.state === "failed" && job.cancelled);
+  // Paused jobs wait for the user, so the batch counts as finished without them
+  const paused = jobs.filter((job) => job.state === "paused");
+  const pending = jobs.filter((job) => job.state !== "done" && job.state !== "failed" && job.state !== "paused");
+
+  const retryFailed = async () => {
+    announcedRef.current = false;
+    for (const job of failed) await retryJob(job.id);
+    await processQueue(ytDlpPath, ffmpegPath);
+    await refresh();
+  };
+
+  useEffect(() => {
+    // A resumed job makes the batch run again, so it's announced again when it ends
+    if (pending.length > 0) announcedRef.current = false;
+    if (isLoading || pending.length > 0 || jobs.length === 0 || announcedRef.current) return;
+    announcedRef.current = true;
+    const summary = [
+      `${done.length} downloaded`,
+      `${failed.length} failed`,
+      paused.length ? `${paused.length} paused` : "",
+      cancelled.length ? `${cancelled.length} cancelled` : "",
+      invalid.length ? `${invalid.length} not supported` : "",
+    ]
+      .filter(Boolean)
+      .join(", ");
+    showToast({
+      style: failed.length ? Toast.Style.Failure : Toast.Style.Success,
+      title: "Batch Finished",
+      message: summary,
+      primaryAction: failed.length ? { title: "Retry Failed", onAction: retryFailed } : undefined,
+    });
+  }, [jobs, isLoading]);
+
+  const batchActions = (
+    <ActionPanel.Section>
+      {failed.length > 0 && (
+        <Action title={`Retry ${failed.length} Failed`} icon={Icon.RotateClockwise} onAction={retryFailed} />
+      )}
+      {failed.length > 0 && (
+        <Action.CopyToClipboard title="Copy Failed URLs" content={failed.map((job) => job.url).join("\n")} />
+      )}
+      <Action
+        title="Open Downloads"
+        icon={Icon.List}
+        onAction={() => launchCommand({ name: "downloads", type: LaunchType.UserInitiated })}
+      />
+    </ActionPanel.Section>
+  );
+
+  const renderJob = (job: DownloadJob, icon: { source: Icon; tintColor: Color }) => (
+    <List.Item
+      key={job.id}
+      icon={icon}
+      title={job.title}
+      subtitle={job.message}
+      keywords={[job.url]}
+      actions={
+        <ActionPanel>
+          <ActionPanel.Section>
+            {job.outputFile && <Action.Open title="Open File" target={job.outputFile} />}
+            {job.outputFile && <Action.ShowInFinder path={job.outputFile} />}
+            <Action.CopyToClipboard title="Copy URL" content={job.url} />
+            {job.errorDetails && <Action.CopyToClipboard title="Copy Error Details" content={job.errorDetails} />}
+          </ActionPanel.Section>
+          {batchActions}
+        </ActionPanel>
+      }
+    />
+  );
+
+  return (
+    <List
+      isLoading={isLoading || pending.length > 0}
+      navigationTitle={`Batch: ${done.length} of ${jobIds.length} Done`}
+      searchBarPlaceholder="Filter by title or URL"
+    >
+      <List.Section title="Failed" subtitle={String(failed.length)}>
+        {failed.map((job) => renderJob(job, { source: Icon.XMarkCircle, tintColor: Color.Red }))}
+      </List.Section>
+      <List.Section title="In Progress" subtitle={String(pending.length)}>
+        {pending.map((job) =>
+          renderJob(job, {
+            source: job.state === "running" ? Icon.Download : Icon.Clock,
+            tintColor: job.state === "running" ? Color.Blue : Color.SecondaryText,
+          }),
+        )}
+      </List.Section>
+      <List.Section title="Paused" subtitle={String(paused.length)}>
+        {paused.map((job) => renderJob(job, { source: Icon.Pause, tintColor: Color.SecondaryText }))}
+      </List.Section>
+      <List.Section title="Cancelled" subtitle={String(cancelled.length)}>
+        {cancelled.map((job) => renderJob(job, { source: Icon.Stop, tintColor: Color.SecondaryText }))}
+      </List.Section>
+      <List.Section title="Done" subtitle={String(done.length)}>
+        {done.map((job) => renderJob(job, { source: Icon.CheckCircle, tintColor: Color.Green }))}
+      </List.Section>
+      <List.Section title="Not Supported" subtitle={String(invalid.length)}>
+        {invalid.map((link) => (
+          <List.Item
+            key={link}
+            icon={{ source: Icon.Warning, tintColor: Color.Orange }}
+            title={link}
+            subtitle="Not a supported URL"
+            actions={
+              <ActionPanel>
+                <Action.CopyToClipboard title="Copy URL" content={link} />
+                {batchActions}
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
+
+export default function Command() {
+  const { push } = useNavigation();
+  const [text, setText] = useState("");
+  const [files, setFiles] = useState<string[]>([]);
+  const [fileText, setFileText] = useState("");
+  const [fileError, setFileError] = useState<string | undefined>();
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [presetId, setPresetId] = useState<string>("");
+  const [outputPath, setOutputPath] = useState(path.join(os.homedir(), "Downloads"));
+  const [paths, setPaths] = useState<{ ytDlpPath: string | null; ffmpegPath: string | null }>();
+
+  const urlOptions = getUrlOptions();
+  const { urls, invalid, duplicates } = parseBatchUrls(`${text}\n${fileText}`, urlOptions);
+
+  useEffect(() => {
+    async function initialize() {
+      const [ytDlpPath, ffmpegPath, allPresets, defaultId] = await Promise.all([
+        findCommandPath("yt-dlp"),
+        findCommandPath("ffmpeg"),
+        getPresets(),
+        getDefaultPresetId(),
+      ]);
+      setPaths({ ytDlpPath, ffmpegPath });
+      setPresets(allPresets);
+      setPresetId(allPresets.find((preset) => preset.id === defaultId)?.id || allPresets[0]?.id || "");
+    }
+    initialize();
+  }, []);
+
+  const handleFileChange = async (selected: string[]) => {
+    setFiles(selected);
+    setFileError(undefined);
+    setFileText("");
+    const [file] = selected;
+    if (!file) return;
+    if (!BATCH_FILE_EXTENSIONS.includes(path.extname(file).toLowerCase())) {
+      setFileError("Pick a .txt or .csv file.");
+      return;
+    }
+    try {
+      setFileText(await fs.promises.readFile(file, "utf8"));
+    } catch (error) {
+      setFileError(`Couldn't read the file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const preset = presets.find((p) => p.id === presetId);
+    if (!paths?.ytDlpPath || !paths.ffmpegPath) {
+      await showToast(Toast.Style.Failure, "Missing Dependencies", "yt-dlp or ffmpeg not found. Run Check Setup.");
+      return;
+    }
+    if (urls.length === 0 || !preset) {
+      await showToast(Toast.Style.Failure, "Nothing to Download", "Paste links or import a file that contains some.");
+      return;
+    }
+
+    const filename = getDefaultFilenameSettings();
+    const jobIds: string[] = [];
+    for (const parsed of urls) {
+      const settings = getPresetDownloadSettings(preset, outputPath, filename);
+      // Playlist and channel links download every entry, like the playlist option in the download form
+      if (parsed.kind !== "video") {
+        settings.playlist = { title: parsed.playlistId || parsed.url.replace(/^https:\/\/www\.youtube\.com\//, "") };
+      }
+      // The title isn't fetched up front; finished jobs are named after their file
+      const job = await enqueueDownload(parsed.url, parsed.url, settings);
+      jobIds.push(job.id);
+    }
+    processQueue(paths.ytDlpPath, paths.ffmpegPath);
+    await showToast(Toast.Style.Success, "Batch Queued", `${jobIds.length} downloads with ${preset.name}`);
+    push(<BatchSummary jobIds={jobIds} invalid={invalid} ytDlpPath={paths.ytDlpPath} ffmpegPath={paths.ffmpegPath} />);
+  };
+
+  return (
+    <Form
+      isLoading={!paths}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Download All" icon={Icon.Download} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextArea
+        id="urls"
+        title="URLs"
+        placeholder="Paste links, one per line. Text around them is ignored."
+        value={text}
+        onChange={setText}
+      />
+      <Form.FilePicker
+        id="file"
+        title="Import File"
+        info="A .txt or .csv file; every link in it is picked up"
+        allowMultipleSelection={false}
+        canChooseDirectories={false}
+        value={files}
+        error={fileError}
+        onChange={handleFileChange}
+      />
+      <Form.Description
+        text={[
+          `${urls.length} ${urls.length === 1 ? "URL" : "URLs"}`,
+          duplicates > 0 && `${duplicates} duplicate${duplicates === 1 ? "" : "s"} removed`,
+          invalid.length > 0 && `${invalid.length} not supported`,
+        ]
+          .filter(Boolean)
+          .join(" · ")}
+      />
+      <Form.Separator />
+      <Form.Dropdown id="preset" title="Preset" value={presetId} onChange={setPresetId}>
+        {presets.map((preset) => (
+          <Form.Dropdown.Item key={preset.id} value={preset.id} title={preset.name} />
+        ))}
+      </Form.Dropdown>
+      <Form.FilePicker
+        id="outputPath"
+        title="Output Folder"
+        allowMultipleSelection={false}
+        canChooseDirectories
+        canChooseFiles={false}
+        value={[outputPath]}
+        onChange={(selected) => selected[0] && setOutputPath(selected[0])}
+      />
+    </Form>
+  );
+}
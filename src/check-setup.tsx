@@ -0,0 +1,150 @@
+import {
+  Action,
+  ActionPanel,
+  Clipboard,
+  Color,
+  Icon,
+  Keyboard,
+  List,
+  Toast,
+  openExtensionPreferences,
+  showToast,
+} from "@raycast/api";
+import { useState, useEffect } from "react";
+import path from "path";
+import {
+  BinaryName,
+  BinaryStatus,
+  INSTALL_GUIDES,
+  getBinaryStatus,
+  getLatestYtDlpVersion,
+  getYtDlpUpdateCommand,
+  isVersionOlder,
+  updateYtDlp,
+} from "./utils/binaries";
+
+const BINARIES: { name: BinaryName; purpose: string }[] = [
+  { name: "yt-dlp", purpose: "Downloads videos and reads their formats" },
+  { name: "ffmpeg", purpose: "Merges, converts, compresses and cuts media" },
+  { name: "ffprobe", purpose: "Used by yt-dlp to inspect files for thumbnails, chapters and remuxing" },
+];
+
+export default function Command() {
+  const [statuses, setStatuses] = useState<BinaryStatus[]>([]);
+  const [latestYtDlp, setLatestYtDlp] = useState<string | undefined>();
+  const [latestError, setLatestError] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = async () => {
+    setIsLoading(true);
+    setStatuses(await Promise.all(BINARIES.map(({ name }) => getBinaryStatus(name))));
+    try {
+      setLatestYtDlp(await getLatestYtDlpVersion());
+      setLatestError(undefined);
+    } catch (error) {
+      // Offline or rate limited; the local versions are still worth showing
+      console.error("Error checking the latest yt-dlp release:", error);
+      setLatestError(error instanceof Error ? error.message : String(error));
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const runUpdate = async (ytDlpPath: string) => {
+    const toast = await showToast(Toast.Style.Animated, "Updating yt-dlp...");
+    try {
+      toast.message = await updateYtDlp(ytDlpPath);
+      toast.style = Toast.Style.Success;
+      toast.title = "yt-dlp Updated";
+      await refresh();
+    } catch (error) {
+      const command = getYtDlpUpdateCommand(ytDlpPath);
+      toast.style = Toast.Style.Failure;
+      toast.title = "Update Failed";
+      toast.message = error instanceof Error ? error.message : String(error);
+      toast.primaryAction = { title: "Copy Update Command", onAction: () => Clipboard.copy(command) };
+    }
+  };
+
+  const ffmpegPath = statuses.find((status) => status.name === "ffmpeg")?.path;
+  const ffprobe = statuses.find((status) => status.name === "ffprobe");
+  // yt-dlp is pointed at ffmpeg and looks for ffprobe in the same folder. An ffprobe set in the preferences is
+  // linked next to ffmpeg for each download, see getFfmpegLocation.
+  const ffprobeApart =
+    !!ffmpegPath &&
+    !!ffprobe?.path &&
+    !ffprobe.fromPreferences &&
+    path.dirname(ffmpegPath) !== path.dirname(ffprobe.path);
+
+  const renderStatus = (status: BinaryStatus) => {
+    const { name, path: binaryPath, version, fromPreferences } = status;
+    const purpose = BINARIES.find((binary) => binary.name === name)?.purpose;
+    const accessories: List.Item.Accessory[] = [];
+    let icon = { source: Icon.CheckCircle, tintColor: Color.Green };
+
+    if (!binaryPath) {
+      icon = { source: Icon.XMarkCircle, tintColor: Color.Red };
+      accessories.push({
+        tag: { value: fromPreferences ? "Path Not Found" : "Not Installed", color: Color.Red },
+      });
+    } else {
+      if (version) accessories.push({ text: version });
+      if (!version) {
+        icon = { source: Icon.Warning, tintColor: Color.Orange };
+        accessories.push({ tag: { value: "Doesn't Run", color: Color.Orange } });
+      } else if (name === "yt-dlp" && latestYtDlp && isVersionOlder(version, latestYtDlp)) {
+        icon = { source: Icon.Warning, tintColor: Color.Orange };
+        accessories.push({ tag: { value: `Outdated, ${latestYtDlp} Available`, color: Color.Orange } });
+      } else if (name === "yt-dlp" && latestYtDlp) {
+        accessories.push({ tag: { value: "Up to Date", color: Color.Green } });
+      } else if (name === "yt-dlp" && latestError) {
+        accessories.push({ icon: Icon.QuestionMarkCircle, tooltip: `Couldn't check for updates: ${latestError}` });
+      } else if (name === "ffprobe" && ffprobeApart) {
+        icon = { source: Icon.Warning, tintColor: Color.Orange };
+        accessories.push({ tag: { value: "Not Next to ffmpeg", color: Color.Orange } });
+      }
+      if (fromPreferences) accessories.push({ icon: Icon.Gear, tooltip: "Set in the extension preferences" });
+    }
+
+    return (
+      <List.Item
+        key={name}
+        icon={icon}
+        title={name}
+        subtitle={binaryPath || purpose}
+        accessories={accessories}
+        actions={
+          <ActionPanel>
+            {name === "yt-dlp" && binaryPath && (
+              <>
+                <Action title="Update Yt-Dlp" icon={Icon.Download} onAction={() => runUpdate(binaryPath)} />
+                <Action.CopyToClipboard title="Copy Update Command" content={getYtDlpUpdateCommand(binaryPath)} />
+              </>
+            )}
+            {!binaryPath && <Action.OpenInBrowser title="Open Install Guide" url={INSTALL_GUIDES[name]} />}
+            <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+            {binaryPath && <Action.CopyToClipboard title="Copy Path" content={binaryPath} />}
+            {binaryPath && <Action.OpenInBrowser title="Open Install Guide" url={INSTALL_GUIDES[name]} />}
+            <Action
+              title="Check Again"
+              icon={Icon.ArrowClockwise}
+              shortcut={Keyboard.Shortcut.Common.Refresh}
+              onAction={refresh}
+            />
+          </ActionPanel>
+        }
+      />
+    );
+  };
+
+  return (
+    <List isLoading={isLoading} navigationTitle="Check Setup">
+      <List.Section title="Required Tools" subtitle={latestYtDlp ? `Latest yt-dlp: ${latestYtDlp}` : undefined}>
+        {statuses.map(renderStatus)}
+      </List.Section>
+    </List>
+  );
+}
@@ -0,0 +1,63 @@
+import { Form } from "@raycast/api";
+import { PostProcessSettings, SPONSORBLOCK_CATEGORIES, SponsorBlockMode } from "../utils/postprocess";
+
+interface PostProcessFieldsProps {
+  value: PostProcessSettings;
+  onChange: (value: PostProcessSettings) => void;
+  isVideo: boolean;
+  canEmbedThumbnail?: boolean; // false for WebM, AAC and WAV, which have no place for cover art
+}
+
+// Post-processing options shared by the download form and the preset editor
+export function PostProcessFields({ value, onChange, isVideo, canEmbedThumbnail = true }: PostProcessFieldsProps) {
+  const update = (changes: Partial<PostProcessSettings>) => onChange({ ...value, ...changes });
+
+  return (
+    <>
+      {canEmbedThumbnail && (
+        <Form.Checkbox
+          id="embedThumbnail"
+          title="Post-Processing"
+          label={isVideo ? "Embed thumbnail as cover" : "Embed thumbnail as album art"}
+          value={value.embedThumbnail}
+          onChange={(embedThumbnail) => update({ embedThumbnail })}
+        />
+      )}
+      <Form.Checkbox
+        id="embedMetadata"
+        title={canEmbedThumbnail ? undefined : "Post-Processing"}
+        label="Write metadata (title, artist, date, description, URL)"
+        value={value.embedMetadata}
+        onChange={(embedMetadata) => update({ embedMetadata })}
+      />
+      <Form.Checkbox
+        id="embedChapters"
+        label="Embed chapter markers"
+        value={value.embedChapters}
+        onChange={(embedChapters) => update({ embedChapters })}
+      />
+      <Form.Dropdown
+        id="sponsorBlock"
+        title="SponsorBlock"
+        value={value.sponsorBlock}
+        onChange={(sponsorBlock) => update({ sponsorBlock: sponsorBlock as SponsorBlockMode })}
+      >
+        <Form.Dropdown.Item value="off" title="Off" />
+        <Form.Dropdown.Item value="mark" title="Mark Segments as Chapters" />
+        <Form.Dropdown.Item value="remove" title="Remove Segments" />
+      </Form.Dropdown>
+      {value.sponsorBlock !== "off" && (
+        <Form.TagPicker
+          id="sponsorBlockCategories"
+          title="Segment Categories"
+          value={value.sponsorBlockCategories}
+          onChange={(sponsorBlockCategories) => update({ sponsorBlockCategories })}
+        >
+          {SPONSORBLOCK_CATEGORIES.map((category) => (
+            <Form.TagPicker.Item key={category.value} value={category.value} title={category.title} />
+          ))}
+        </Form.TagPicker>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,224 @@
+import { Action, ActionPanel, Form, Icon, Toast, showToast, useNavigation } from "@raycast/api";
+import { useEffect, useState } from "react";
+import {
+  AUDIO_BITRATES,
+  DEFAULT_AUDIO_BITRATE,
+  DEFAULT_ENCODER_SPEED,
+  DEFAULT_TARGET_SIZE,
+  DOWNLOAD_TYPES,
+  ENCODER_SPEEDS,
+  EncoderSpeed,
+  TARGET_SIZES,
+  VIDEO_ENCODERS,
+  VideoEncoder,
+  getCrfOptions,
+  getEncodersForContainer,
+  getVideoContainer,
+  getVideoEncoder,
+  isVideoType,
+  supportsThumbnail,
+  usesAudioBitrate,
+} from "../utils/codecs";
+import { DEFAULT_POST_PROCESSING } from "../utils/postprocess";
+import { Preset, PresetSettings, savePreset, setDefaultPresetId } from "../utils/presets";
+import { PostProcessFields } from "./post-process-fields";
+
+interface PresetFormProps {
+  // The preset being edited, or the settings a new preset starts from
+  preset?: Preset;
+  initialSettings?: PresetSettings;
+  isDefault?: boolean;
+  onSave?: (preset: Preset) => void;
+}
+
+// Creates or edits a user preset; used by Manage Presets and by "Save as Preset" in the download form
+export function PresetForm({ preset, initialSettings, isDefault = false, onSave }: PresetFormProps) {
+  const { pop } = useNavigation();
+  const initial = preset || initialSettings;
+  // Duplicates come in as a preset without an id
+  const isEditing = !!preset?.id;
+  const [name, setName] = useState(preset?.name || "");
+  const [nameError, setNameError] = useState<string | undefined>();
+  const [description, setDescription] = useState(preset?.description || "");
+  const [downloadType, setDownloadType] = useState(initial?.downloadType || "mp4_video_audio");
+  const [videoQuality, setVideoQuality] = useState(initial?.videoQuality || "best");
+  const [compressionLevel, setCompressionLevel] = useState(initial?.compressionLevel || "none");
+  const [compressionCrf, setCompressionCrf] = useState(initial?.compressionCrf || "23");
+  const [targetSize, setTargetSize] = useState(initial?.targetSize || DEFAULT_TARGET_SIZE);
+  const [mp3Quality, setMp3Quality] = useState(initial?.mp3Quality || "5");
+  const [videoEncoder, setVideoEncoder] = useState<VideoEncoder | undefined>(initial?.videoEncoder);
+  const [encoderSpeed, setEncoderSpeed] = useState<EncoderSpeed>(initial?.encoderSpeed || DEFAULT_ENCODER_SPEED);
+  const [audioBitrate, setAudioBitrate] = useState(initial?.audioBitrate || DEFAULT_AUDIO_BITRATE);
+  const [postProcessing, setPostProcessing] = useState(initial?.postProcessing || DEFAULT_POST_PROCESSING);
+  const [makeDefault, setMakeDefault] = useState(isDefault);
+  const isVideo = isVideoType(downloadType);
+  const container = getVideoContainer(downloadType);
+  const selectedEncoder = getVideoEncoder(downloadType, videoEncoder);
+
+  // Each encoder has its own CRF scale, so a custom value from another one may not be on offer
+  useEffect(() => {
+    if (!VIDEO_ENCODERS[selectedEncoder].crfOptions.includes(compressionCrf)) {
+      setCompressionCrf(VIDEO_ENCODERS[selectedEncoder].crf.medium);
+    }
+  }, [selectedEncoder]);
+
+  const handleSubmit = async () => {
+    if (!name.trim()) {
+      setNameError("Give the preset a name.");
+      return;
+    }
+    const saved = await savePreset({
+      id: isEditing ? preset?.id : undefined,
+      name: name.trim(),
+      description: description.trim() || undefined,
+      downloadType,
+      videoQuality,
+      compressionLevel,
+      compressionCrf,
+      targetSize: compressionLevel === "target" ? targetSize : undefined,
+      mp3Quality,
+      videoEncoder: isVideo ? selectedEncoder : undefined,
+      encoderSpeed,
+      audioBitrate,
+      postProcessing,
+    });
+    if (makeDefault) {
+      await setDefaultPresetId(saved.id);
+    } else if (isDefault) {
+      await setDefaultPresetId(undefined);
+    }
+    await showToast(Toast.Style.Success, isEditing ? "Preset Updated" : "Preset Saved", saved.name);
+    onSave?.(saved);
+    pop();
+  };
+
+  return (
+    <Form
+      navigationTitle={isEditing ? "Edit Preset" : "New Preset"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Preset" icon={Icon.SaveDocument} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Name"
+        placeholder="e.g., 🎙️ Podcast 720p"
+        value={name}
+        error={nameError}
+        onChange={(value) => {
+          setName(value);
+          if (value.trim()) setNameError(undefined);
+        }}
+      />
+      <Form.TextField
+        id="description"
+        title="Description"
+        placeholder="Optional"
+        value={description}
+        onChange={setDescription}
+      />
+      <Form.Dropdown id="downloadType" title="Download Type" value={downloadType} onChange={setDownloadType}>
+        {["Video", "Audio"].map((section) => (
+          <Form.Dropdown.Section key={section} title={section}>
+            {DOWNLOAD_TYPES.filter((type) => type.section === section).map((type) => (
+              <Form.Dropdown.Item key={type.value} value={type.value} title={type.title} />
+            ))}
+          </Form.Dropdown.Section>
+        ))}
+      </Form.Dropdown>
+      {isVideo && (
+        <Form.Dropdown id="videoQuality" title="Video Quality" value={videoQuality} onChange={setVideoQuality}>
+          <Form.Dropdown.Item value="best" title="Best Available" />
+          <Form.Dropdown.Item value="2160p" title="2160p (4K)" />
+          <Form.Dropdown.Item value="1440p" title="1440p (2K)" />
+          <Form.Dropdown.Item value="1080p" title="1080p (Full HD)" />
+          <Form.Dropdown.Item value="720p" title="720p (HD)" />
+          <Form.Dropdown.Item value="480p" title="480p (SD)" />
+        </Form.Dropdown>
+      )}
+      {isVideo && (
+        <Form.Dropdown
+          id="compressionLevel"
+          title="Compression"
+          value={compressionLevel}
+          onChange={setCompressionLevel}
+        >
+          <Form.Dropdown.Item value="none" title="No Compression (Remux Only)" />
+          <Form.Dropdown.Item value="light" title="Light Compression (High Quality)" />
+          <Form.Dropdown.Item value="medium" title="Medium Compression (Balanced)" />
+          <Form.Dropdown.Item value="high" title="High Compression (Smaller Files)" />
+          <Form.Dropdown.Item value="custom" title="Custom CRF Value" />
+          <Form.Dropdown.Item value="target" title="Target Size (Fit Under a Limit)" />
+        </Form.Dropdown>
+      )}
+      {container && compressionLevel !== "none" && (
+        <Form.Dropdown
+          id="videoEncoder"
+          title="Video Encoder"
+          value={selectedEncoder}
+          onChange={(value) => setVideoEncoder(value as VideoEncoder)}
+        >
+          {getEncodersForContainer(container).map((encoder) => (
+            <Form.Dropdown.Item key={encoder} value={encoder} title={VIDEO_ENCODERS[encoder].title} />
+          ))}
+        </Form.Dropdown>
+      )}
+      {isVideo && compressionLevel === "custom" && (
+        <Form.Dropdown id="compressionCrf" title="CRF Value" value={compressionCrf} onChange={setCompressionCrf}>
+          {getCrfOptions(selectedEncoder).map((option) => (
+            <Form.Dropdown.Item key={option.value} value={option.value} title={option.title} />
+          ))}
+        </Form.Dropdown>
+      )}
+      {isVideo && compressionLevel === "target" && (
+        <Form.Dropdown id="targetSize" title="Target Size" value={targetSize} onChange={setTargetSize}>
+          {TARGET_SIZES.map((size) => (
+            <Form.Dropdown.Item key={size.value} value={size.value} title={size.title} />
+          ))}
+        </Form.Dropdown>
+      )}
+      {isVideo && compressionLevel !== "none" && (
+        <Form.Dropdown
+          id="encoderSpeed"
+          title="Encoding Speed"
+          value={encoderSpeed}
+          onChange={(value) => setEncoderSpeed(value as EncoderSpeed)}
+        >
+          {ENCODER_SPEEDS.map((speed) => (
+            <Form.Dropdown.Item key={speed.value} value={speed.value} title={speed.title} />
+          ))}
+        </Form.Dropdown>
+      )}
+      {downloadType === "mp3_audio" && (
+        <Form.Dropdown id="mp3Quality" title="MP3 Audio Quality" value={mp3Quality} onChange={setMp3Quality}>
+          <Form.Dropdown.Item value="5" title="VBR ~130 kbps (Standard)" />
+          <Form.Dropdown.Item value="0" title="VBR ~245 kbps (Best)" />
+          <Form.Dropdown.Item value="2" title="VBR ~190 kbps (High)" />
+          <Form.Dropdown.Item value="320K" title="CBR 320 kbps" />
+        </Form.Dropdown>
+      )}
+      {usesAudioBitrate(downloadType) && (
+        <Form.Dropdown id="audioBitrate" title="Audio Bitrate" value={audioBitrate} onChange={setAudioBitrate}>
+          {AUDIO_BITRATES.map((bitrate) => (
+            <Form.Dropdown.Item key={bitrate} value={bitrate} title={`${parseInt(bitrate)} kbps`} />
+          ))}
+        </Form.Dropdown>
+      )}
+      <PostProcessFields
+        value={postProcessing}
+        onChange={setPostProcessing}
+        isVideo={isVideo}
+        canEmbedThumbnail={supportsThumbnail(downloadType)}
+      />
+      <Form.Separator />
+      <Form.Checkbox
+        id="makeDefault"
+        label="Apply when the download form opens"
+        value={makeDefault}
+        onChange={setMakeDefault}
+      />
+    </Form>
+  );
+}
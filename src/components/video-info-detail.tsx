@@ -0,0 +1,166 @@
+import { Action, ActionPanel, Color, Detail, Icon, Keyboard, useNavigation } from "@raycast/api";
+import { DownloadErrorDescription } from "../utils/errors";
+import { formatDuration, parseUploadDate } from "../utils/format";
+import { hasVideo } from "../utils/formats";
+import { getSubtitleLanguages } from "../utils/subtitles";
+import { VideoInfo } from "../utils/video-info";
+
+interface VideoInfoDetailProps {
+  url: string;
+  // The fetched info, or why it couldn't be fetched
+  info?: VideoInfo | null;
+  error?: DownloadErrorDescription;
+  onDownload?: () => void;
+}
+
+const AVAILABILITY_LABELS: Record<string, string> = {
+  public: "Public",
+  unlisted: "Unlisted",
+  private: "Private",
+  needs_auth: "Sign-In Required",
+  subscriber_only: "Members Only",
+  premium_only: "Premium Only",
+};
+
+const LIVE_LABELS: Record<string, string> = {
+  is_live: "Live Now",
+  is_upcoming: "Upcoming",
+  was_live: "Past Live Stream",
+  post_live: "Live Stream, Still Processing",
+};
+
+// Distinct video heights on offer, highest first, e.g. ["2160p60", "1080p", "720p"]
+const getResolutions = (info: VideoInfo): string[] => {
+  const labels = (info.formats || [])
+    .filter((format) => hasVideo(format) && format.height)
+    .sort((a, b) => (b.height || 0) - (a.height || 0) || (b.fps || 0) - (a.fps || 0))
+    .map((format) => `${format.height}p${format.fps && format.fps > 30 ? Math.round(format.fps) : ""}`);
+  return [...new Set(labels)];
+};
+
+// Things that can stop the download or change what it contains, worth reading before starting
+const getWarnings = (info: VideoInfo): string[] => {
+  const warnings: string[] = [];
+  if (info.age_limit && info.age_limit >= 18) {
+    warnings.push("Age-restricted. Downloading needs cookies from a signed-in account.");
+  }
+  if (info.availability && !["public", "unlisted"].includes(info.availability)) {
+    warnings.push(`${AVAILABILITY_LABELS[info.availability] || info.availability}. Downloading needs cookies.`);
+  }
+  if (info.live_status === "is_live") warnings.push("Live now. The download records from the current point.");
+  if (info.live_status === "is_upcoming") warnings.push("Hasn't started yet, so there's nothing to download.");
+  if (info.live_status === "post_live") warnings.push("Still being processed; only part of it may download.");
+  if (info.formats && !info.formats.some(hasVideo)) warnings.push("No video formats found; only audio can be saved.");
+  return warnings;
+};
+
+const buildMarkdown = (url: string, info?: VideoInfo | null, error?: DownloadErrorDescription): string => {
+  if (!info) {
+    return error
+      ? `# Can't Read This Video\n\n⚠️ ${error.message}\n\nThe download would fail the same way.`
+      : `# Loading...\n\n${url}`;
+  }
+
+  const sections = [`# ${info.title || url}`];
+  if (info.thumbnail) sections.push(`![Thumbnail](${info.thumbnail})`);
+  const warnings = getWarnings(info);
+  if (warnings.length) sections.push(warnings.map((warning) => `> ⚠️ ${warning}`).join("\n>\n"));
+  if (info.description?.trim()) sections.push(`## Description\n\n${info.description.trim()}`);
+  if (info.chapters?.length) {
+    const chapters = info.chapters.map((chapter) => `- \`${formatDuration(chapter.start_time)}\` ${chapter.title}`);
+    sections.push(`## Chapters\n\n${chapters.join("\n")}`);
+  }
+  return sections.join("\n\n");
+};
+
+// Everything yt-dlp reports about a video, so it can be checked before it's downloaded
+export function VideoInfoDetail({ url, info, error, onDownload }: VideoInfoDetailProps) {
+  const { pop } = useNavigation();
+  const uploadDate = parseUploadDate(info?.upload_date);
+  const resolutions = info ? getResolutions(info) : [];
+  const captions = getSubtitleLanguages(info || null, "manual");
+  const autoCaptions = getSubtitleLanguages(info || null, "auto");
+  const channel = info?.channel || info?.uploader;
+
+  return (
+    <Detail
+      navigationTitle="Video Info"
+      isLoading={!info && !error}
+      markdown={buildMarkdown(url, info, error)}
+      metadata={
+        info && (
+          <Detail.Metadata>
+            {channel &&
+              (info.channel_url ? (
+                <Detail.Metadata.Link title="Channel" text={channel} target={info.channel_url} />
+              ) : (
+                <Detail.Metadata.Label title="Channel" text={channel} />
+              ))}
+            {uploadDate && <Detail.Metadata.Label title="Uploaded" text={uploadDate.toLocaleDateString()} />}
+            {info.duration !== undefined && (
+              <Detail.Metadata.Label title="Duration" text={formatDuration(info.duration)} />
+            )}
+            {info.view_count !== undefined && (
+              <Detail.Metadata.Label title="Views" text={info.view_count.toLocaleString()} />
+            )}
+            {info.like_count !== undefined && (
+              <Detail.Metadata.Label title="Likes" text={info.like_count.toLocaleString()} />
+            )}
+            <Detail.Metadata.Separator />
+            {resolutions.length > 0 && (
+              <Detail.Metadata.TagList title="Resolutions">
+                {resolutions.map((resolution) => (
+                  <Detail.Metadata.TagList.Item key={resolution} text={resolution} />
+                ))}
+              </Detail.Metadata.TagList>
+            )}
+            <Detail.Metadata.Label title="Chapters" text={String(info.chapters?.length || 0)} />
+            {captions.length > 0 ? (
+              <Detail.Metadata.TagList title="Captions">
+                {captions.map((language) => (
+                  <Detail.Metadata.TagList.Item key={language.code} text={language.name} />
+                ))}
+              </Detail.Metadata.TagList>
+            ) : (
+              <Detail.Metadata.Label title="Captions" text="None" />
+            )}
+            {autoCaptions.length > 0 && (
+              <Detail.Metadata.Label title="Auto-Generated Captions" text={`${autoCaptions.length} languages`} />
+            )}
+            <Detail.Metadata.Separator />
+            <Detail.Metadata.TagList title="Availability">
+              <Detail.Metadata.TagList.Item
+                text={AVAILABILITY_LABELS[info.availability || "public"] || info.availability || "Public"}
+                color={
+                  !info.availability || ["public", "unlisted"].includes(info.availability) ? Color.Green : Color.Orange
+                }
+              />
+              {!!info.age_limit && <Detail.Metadata.TagList.Item text={`${info.age_limit}+`} color={Color.Red} />}
+              {info.live_status && LIVE_LABELS[info.live_status] && (
+                <Detail.Metadata.TagList.Item text={LIVE_LABELS[info.live_status]} color={Color.Blue} />
+              )}
+            </Detail.Metadata.TagList>
+          </Detail.Metadata>
+        )
+      }
+      actions={
+        <ActionPanel>
+          {onDownload && (
+            <Action
+              title="Download Video"
+              icon={Icon.Download}
+              onAction={() => {
+                onDownload();
+                pop();
+              }}
+            />
+          )}
+          <Action.OpenInBrowser url={url} />
+          <Action.CopyToClipboard title="Copy URL" content={url} shortcut={Keyboard.Shortcut.Common.Copy} />
+          {info?.description && <Action.CopyToClipboard title="Copy Description" content={info.description} />}
+          {error && <Action.CopyToClipboard title="Copy Error Details" content={error.details} />}
+        </ActionPanel>
+      }
+    />
+  );
+}
@@ -0,0 +1,373 @@
+import {
+  Action,
+  ActionPanel,
+  Color,
+  Form,
+  Icon,
+  List,
+  Toast,
+  getSelectedFinderItems,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { ResultPromise } from "execa";
+import { useEffect, useRef, useState } from "react";
+import path from "path";
+import { findCommandPath } from "./utils/binaries";
+import { ClipSettings, parseTimeInput } from "./utils/clip";
+import {
+  AUDIO_BITRATES,
+  DEFAULT_AUDIO_BITRATE,
+  DEFAULT_ENCODER_SPEED,
+  DEFAULT_TARGET_SIZE,
+  DOWNLOAD_TYPES,
+  ENCODER_SPEEDS,
+  EncoderSpeed,
+  TARGET_SIZES,
+  VIDEO_ENCODERS,
+  VideoEncoder,
+  getCrfOptions,
+  getEncodersForContainer,
+  getVideoContainer,
+  getVideoEncoder,
+  isVideoType,
+  usesAudioBitrate,
+} from "./utils/codecs";
+import {
+  ConvertResult,
+  ConvertSettings,
+  MEDIA_EXTENSIONS,
+  convertFile,
+  describeSizeChange,
+  isMediaFile,
+} from "./utils/convert";
+import { formatProgressMessage } from "./utils/progress";
+
+interface ConvertSummaryProps {
+  results: ConvertResult[];
+  failed: { file: string; message: string }[];
+}
+
+// Lists what was converted with the size before and after, and what failed
+function ConvertSummary({ results, failed }: ConvertSummaryProps) {
+  return (
+    <List navigationTitle="Converted Files">
+      <List.Section title="Converted" subtitle={String(results.length)}>
+        {results.map((result) => (
+          <List.Item
+            key={result.output}
+            icon={{ source: Icon.CheckCircle, tintColor: Color.Green }}
+            title={path.basename(result.output)}
+            subtitle={path.basename(result.input)}
+            accessories={[
+              {
+                tag: {
+                  value: describeSizeChange(result),
+                  color: result.outputSize < result.inputSize ? Color.Green : Color.Orange,
+                },
+              },
+            ]}
+            actions={
+              <ActionPanel>
+                <Action.Open title="Open File" target={result.output} />
+                <Action.ShowInFinder path={result.output} />
+                <Action.CopyToClipboard title="Copy File Path" content={result.output} />
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+      <List.Section title="Failed" subtitle={String(failed.length)}>
+        {failed.map(({ file, message }) => (
+          <List.Item
+            key={file}
+            icon={{ source: Icon.XMarkCircle, tintColor: Color.Red }}
+            title={path.basename(file)}
+            subtitle={message}
+            actions={
+              <ActionPanel>
+                <Action.CopyToClipboard title="Copy Error" content={message} />
+                <Action.ShowInFinder path={file} />
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
+
+export default function Command() {
+  const { push } = useNavigation();
+  const [files, setFiles] = useState<string[]>([]);
+  const [filesError, setFilesError] = useState<string | undefined>();
+  const [downloadType, setDownloadType] = useState("mp4_video_audio");
+  const [compressionLevel, setCompressionLevel] = useState("medium");
+  const [compressionCrf, setCompressionCrf] = useState("23");
+  const [targetSize, setTargetSize] = useState(DEFAULT_TARGET_SIZE);
+  const [videoEncoder, setVideoEncoder] = useState<VideoEncoder | undefined>();
+  const [encoderSpeed, setEncoderSpeed] = useState<EncoderSpeed>(DEFAULT_ENCODER_SPEED);
+  const [mp3Quality, setMp3Quality] = useState("5");
+  const [audioBitrate, setAudioBitrate] = useState(DEFAULT_AUDIO_BITRATE);
+  const [clipStart, setClipStart] = useState("");
+  const [clipEnd, setClipEnd] = useState("");
+  const [clipError, setClipError] = useState<{ start?: string; end?: string }>({});
+  const [exactCuts, setExactCuts] = useState(false);
+  const [ffmpegPath, setFfmpegPath] = useState<string | null>();
+  const [isConverting, setIsConverting] = useState(false);
+  // The running ffmpeg process, so the toast can stop it
+  const subprocessRef = useRef<ResultPromise | undefined>(undefined);
+  const cancelledRef = useRef(false);
+
+  const isVideo = isVideoType(downloadType);
+  const container = getVideoContainer(downloadType);
+  const selectedEncoder = getVideoEncoder(downloadType, videoEncoder);
+  const hasClip = !!(clipStart.trim() || clipEnd.trim());
+  const reencodes = isVideo && (compressionLevel !== "none" || (hasClip && exactCuts));
+
+  useEffect(() => {
+    async function initialize() {
+      setFfmpegPath(await findCommandPath("ffmpeg"));
+      try {
+        // Files selected in Finder are picked up, like a URL on the clipboard in the download form
+        const selected = (await getSelectedFinderItems()).map((item) => item.path).filter(isMediaFile);
+        if (selected.length) setFiles(selected);
+      } catch {
+        // Finder isn't frontmost or nothing is selected
+      }
+    }
+    initialize();
+  }, []);
+
+  // Each encoder has its own CRF scale, so a custom value from another one may not be on offer
+  useEffect(() => {
+    if (!VIDEO_ENCODERS[selectedEncoder].crfOptions.includes(compressionCrf)) {
+      setCompressionCrf(VIDEO_ENCODERS[selectedEncoder].crf.medium);
+    }
+  }, [selectedEncoder]);
+
+  // The part to keep, or undefined for the whole file; null when a time doesn't parse
+  const getClip = (): ClipSettings | undefined | null => {
+    const errors: { start?: string; end?: string } = {};
+    const start = clipStart.trim() ? parseTimeInput(clipStart) : undefined;
+    const end = clipEnd.trim() ? parseTimeInput(clipEnd) : undefined;
+    if (start === null) errors.start = "Use a time like 1:23, 83 or 1m23s";
+    if (end === null) errors.end = "Use a time like 2:05, 125 or 2m5s";
+    if (typeof end === "number" && end <= (start || 0)) errors.end = "End must be after the start";
+    setClipError(errors);
+    if (errors.start || errors.end) return null;
+    return start || end !== undefined ? { start: start || undefined, end: end ?? undefined, exactCuts } : undefined;
+  };
+
+  const handleSubmit = async () => {
+    const clip = getClip();
+    if (files.length === 0) {
+      setFilesError("Pick at least one video or audio file.");
+      return;
+    }
+    if (clip === null) return;
+    if (!ffmpegPath) {
+      await showToast(Toast.Style.Failure, "ffmpeg Not Found", "Install ffmpeg, or set its path in the preferences.");
+      return;
+    }
+
+    const settings: ConvertSettings = {
+      downloadType,
+      compressionLevel: isVideo ? compressionLevel : "none",
+      compressionCrf,
+      targetSize,
+      videoEncoder: selectedEncoder,
+      encoderSpeed,
+      mp3Quality,
+      audioBitrate,
+      clip,
+    };
+    const results: ConvertResult[] = [];
+    const failed: { file: string; message: string }[] = [];
+    cancelledRef.current = false;
+    setIsConverting(true);
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: "Converting...",
+      primaryAction: {
+        title: "Cancel",
+        onAction: () => {
+          cancelledRef.current = true;
+          subprocessRef.current?.kill();
+        },
+      },
+    });
+
+    for (const [index, file] of files.entries()) {
+      if (cancelledRef.current) break;
+      const prefix = files.length > 1 ? `${index + 1} of ${files.length}: ` : "";
+      toast.title = `Converting ${prefix}${path.basename(file)}`;
+      toast.message = undefined;
+      try {
+        results.push(
+          await convertFile(ffmpegPath, file, settings, {
+            onProgress: (progress) => (toast.message = formatProgressMessage(progress)),
+            onSpawn: (subprocess) => (subprocessRef.current = subprocess),
+          }),
+        );
+      } catch (error) {
+        if (cancelledRef.current) break;
+        console.error("Error converting file:", error);
+        failed.push({ file, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    subprocessRef.current = undefined;
+    setIsConverting(false);
+
+    toast.primaryAction = undefined;
+    if (cancelledRef.current) {
+      toast.style = Toast.Style.Success;
+      toast.title = "Conversion Cancelled";
+      toast.message = results.length ? `${results.length} finished before cancelling` : undefined;
+    } else if (failed.length === 0 && results.length === 1) {
+      toast.style = Toast.Style.Success;
+      toast.title = "Conversion Complete";
+      toast.message = describeSizeChange(results[0]);
+    } else {
+      toast.style = failed.length ? Toast.Style.Failure : Toast.Style.Success;
+      toast.title = failed.length ? "Some Files Failed" : "Conversion Complete";
+      toast.message = `${results.length} converted${failed.length ? `, ${failed.length} failed` : ""}`;
+    }
+    if (results.length || failed.length) push(<ConvertSummary results={results} failed={failed} />);
+  };
+
+  return (
+    <Form
+      isLoading={ffmpegPath === undefined || isConverting}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Convert" icon={Icon.Switch} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.FilePicker
+        id="files"
+        title="Files"
+        info={`Videos or audio files (${MEDIA_EXTENSIONS.join(", ")}). Files selected in Finder are picked up when the command opens.`}
+        allowMultipleSelection
+        canChooseDirectories={false}
+        value={files}
+        error={filesError}
+        onChange={(selected) => {
+          const media = selected.filter(isMediaFile);
+          setFiles(media);
+          setFilesError(media.length < selected.length ? "Only video and audio files can be converted." : undefined);
+        }}
+      />
+      {ffmpegPath === null && (
+        <Form.Description text="⚠️ ffmpeg not found. Install it or set its path in the preferences, then run Check Setup." />
+      )}
+      <Form.Dropdown id="downloadType" title="Convert To" value={downloadType} onChange={setDownloadType}>
+        {["Video", "Audio"].map((section) => (
+          <Form.Dropdown.Section key={section} title={section}>
+            {DOWNLOAD_TYPES.filter((type) => type.section === section).map((type) => (
+              <Form.Dropdown.Item key={type.value} value={type.value} title={type.title} />
+            ))}
+          </Form.Dropdown.Section>
+        ))}
+      </Form.Dropdown>
+      {isVideo && (
+        <Form.Dropdown
+          id="compressionLevel"
+          title="Compression"
+          value={compressionLevel}
+          onChange={setCompressionLevel}
+        >
+          <Form.Dropdown.Item value="none" title="No Compression (Remux Only)" />
+          <Form.Dropdown.Item value="light" title="Light Compression (High Quality)" />
+          <Form.Dropdown.Item value="medium" title="Medium Compression (Balanced)" />
+          <Form.Dropdown.Item value="high" title="High Compression (Smaller Files)" />
+          <Form.Dropdown.Item value="custom" title="Custom CRF Value" />
+          <Form.Dropdown.Item value="target" title="Target Size (Fit Under a Limit)" />
+        </Form.Dropdown>
+      )}
+      {container && reencodes && (
+        <Form.Dropdown
+          id="videoEncoder"
+          title="Video Encoder"
+          value={selectedEncoder}
+          onChange={(value) => setVideoEncoder(value as VideoEncoder)}
+        >
+          {getEncodersForContainer(container).map((encoder) => (
+            <Form.Dropdown.Item key={encoder} value={encoder} title={VIDEO_ENCODERS[encoder].title} />
+          ))}
+        </Form.Dropdown>
+      )}
+      {isVideo && compressionLevel === "custom" && (
+        <Form.Dropdown id="compressionCrf" title="CRF Value" value={compressionCrf} onChange={setCompressionCrf}>
+          {getCrfOptions(selectedEncoder).map((option) => (
+            <Form.Dropdown.Item key={option.value} value={option.value} title={option.title} />
+          ))}
+        </Form.Dropdown>
+      )}
+      {isVideo && compressionLevel === "target" && (
+        <Form.Dropdown id="targetSize" title="Target Size" value={targetSize} onChange={setTargetSize}>
+          {TARGET_SIZES.map((size) => (
+            <Form.Dropdown.Item key={size.value} value={size.value} title={size.title} />
+          ))}
+        </Form.Dropdown>
+      )}
+      {reencodes && (
+        <Form.Dropdown
+          id="encoderSpeed"
+          title="Encoding Speed"
+          value={encoderSpeed}
+          onChange={(value) => setEncoderSpeed(value as EncoderSpeed)}
+        >
+          {ENCODER_SPEEDS.map((speed) => (
+            <Form.Dropdown.Item key={speed.value} value={speed.value} title={speed.title} />
+          ))}
+        </Form.Dropdown>
+      )}
+      {isVideo && !reencodes && (
+        <Form.Description text="💡 Remuxing copies the streams as they are. WebM only holds VP9 or AV1 video, so pick a compression level to convert H.264 files into it." />
+      )}
+      {downloadType === "mp3_audio" && (
+        <Form.Dropdown id="mp3Quality" title="MP3 Audio Quality" value={mp3Quality} onChange={setMp3Quality}>
+          <Form.Dropdown.Item value="5" title="VBR ~130 kbps (Standard)" />
+          <Form.Dropdown.Item value="0" title="VBR ~245 kbps (Best)" />
+          <Form.Dropdown.Item value="2" title="VBR ~190 kbps (High)" />
+          <Form.Dropdown.Item value="320K" title="CBR 320 kbps" />
+        </Form.Dropdown>
+      )}
+      {usesAudioBitrate(downloadType) && (
+        <Form.Dropdown id="audioBitrate" title="Audio Bitrate" value={audioBitrate} onChange={setAudioBitrate}>
+          {AUDIO_BITRATES.map((bitrate) => (
+            <Form.Dropdown.Item key={bitrate} value={bitrate} title={`${parseInt(bitrate)} kbps`} />
+          ))}
+        </Form.Dropdown>
+      )}
+      <Form.Separator />
+      <Form.TextField
+        id="clipStart"
+        title="Trim Start"
+        placeholder="e.g., 1:23 (optional)"
+        value={clipStart}
+        error={clipError.start}
+        onChange={setClipStart}
+      />
+      <Form.TextField
+        id="clipEnd"
+        title="Trim End"
+        placeholder="e.g., 2:05 (optional)"
+        value={clipEnd}
+        error={clipError.end}
+        onChange={setClipEnd}
+      />
+      {isVideo && hasClip && (
+        <Form.Checkbox
+          id="exactCuts"
+          label="Cut at the exact times (re-encodes the video)"
+          value={exactCuts}
+          onChange={setExactCuts}
+        />
+      )}
+      <Form.Description text="Converted files are saved next to the originals, which are kept." />
+    </Form>
+  );
+}
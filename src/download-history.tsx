@@ -0,0 +1,189 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Color,
+  Icon,
+  LaunchType,
+  List,
+  Toast,
+  confirmAlert,
+  launchCommand,
+  showToast,
+  Keyboard,
+} from "@raycast/api";
+import { useState, useEffect } from "react";
+import fs from "fs";
+import path from "path";
+import { findCommandPath } from "./utils/binaries";
+import { describeSettings } from "./utils/download";
+import { formatDuration, formatFileSize } from "./utils/format";
+import { HistoryEntry, canDeleteFolder, clearHistory, getHistory, removeHistoryEntry } from "./utils/history";
+import { enqueueDownload, processQueue } from "./utils/queue";
+
+export default function Command() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [missing, setMissing] = useState<Set<string>>(new Set());
+  // Playlists and chapter splits are saved as folders
+  const [folders, setFolders] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = async () => {
+    const history = await getHistory();
+    setEntries(history);
+    setMissing(new Set(history.filter((entry) => !fs.existsSync(entry.path)).map((entry) => entry.id)));
+    setFolders(
+      new Set(
+        history
+          .filter((entry) => fs.statSync(entry.path, { throwIfNoEntry: false })?.isDirectory())
+          .map((entry) => entry.id),
+      ),
+    );
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const redownload = async (entry: HistoryEntry) => {
+    const [ytDlpPath, ffmpegPath] = await Promise.all([findCommandPath("yt-dlp"), findCommandPath("ffmpeg")]);
+    if (!ytDlpPath || !ffmpegPath) {
+      await showToast(Toast.Style.Failure, "Missing Dependencies", "yt-dlp or ffmpeg not found.");
+      return;
+    }
+    await enqueueDownload(entry.url, entry.title, entry.settings, entry.duration);
+    processQueue(ytDlpPath, ffmpegPath);
+    await showToast({
+      style: Toast.Style.Success,
+      title: "Added to Queue",
+      message: entry.title,
+      primaryAction: {
+        title: "Open Downloads",
+        onAction: () => launchCommand({ name: "downloads", type: LaunchType.UserInitiated }),
+      },
+    });
+  };
+
+  const deleteFile = async (entry: HistoryEntry) => {
+    const isFolder = fs.statSync(entry.path, { throwIfNoEntry: false })?.isDirectory() || false;
+    if (isFolder && !canDeleteFolder(entry)) {
+      await showToast(
+        Toast.Style.Failure,
+        "Folder Not Deleted",
+        `${entry.path} holds more than this download. Delete its files in Finder instead.`,
+      );
+      return;
+    }
+    const confirmed = await confirmAlert({
+      title: isFolder ? "Delete Folder?" : "Delete File?",
+      message: isFolder
+        ? `The folder ${path.basename(entry.path)} and everything in it will be deleted from disk.`
+        : `${path.basename(entry.path)} will be deleted from disk.`,
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    try {
+      await fs.promises.rm(entry.path, { recursive: isFolder });
+      await showToast(Toast.Style.Success, isFolder ? "Folder Deleted" : "File Deleted", path.basename(entry.path));
+    } catch (error) {
+      console.error("Error deleting file:", error);
+      await showToast(
+        Toast.Style.Failure,
+        isFolder ? "Failed to Delete Folder" : "Failed to Delete File",
+        String(error),
+      );
+    }
+    await refresh();
+  };
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search downloads by title or URL">
+      <List.EmptyView
+        icon={Icon.Clock}
+        title="No Downloads Yet"
+        description="Completed downloads are listed here with the settings they used."
+      />
+      {entries.map((entry) => {
+        const isMissing = missing.has(entry.id);
+        const accessories: List.Item.Accessory[] = [];
+        if (isMissing) accessories.push({ tag: { value: "Missing", color: Color.Red }, tooltip: entry.path });
+        if (entry.size) accessories.push({ text: formatFileSize(entry.size) });
+        if (entry.duration) accessories.push({ text: formatDuration(entry.duration), icon: Icon.Clock });
+        accessories.push({ date: new Date(entry.downloadedAt) });
+
+        return (
+          <List.Item
+            key={entry.id}
+            icon={isMissing ? { source: Icon.Warning, tintColor: Color.Red } : Icon.Document}
+            title={entry.title}
+            subtitle={describeSettings(entry.settings)}
+            keywords={[entry.url, path.basename(entry.path)]}
+            accessories={accessories}
+            actions={
+              <ActionPanel>
+                <ActionPanel.Section>
+                  {!isMissing && <Action.Open title="Open File" target={entry.path} />}
+                  {!isMissing && <Action.ShowInFinder path={entry.path} />}
+                  <Action
+                    title="Download Again"
+                    icon={Icon.Download}
+                    shortcut={Keyboard.Shortcut.Common.Refresh}
+                    onAction={() => redownload(entry)}
+                  />
+                </ActionPanel.Section>
+                <ActionPanel.Section>
+                  <Action.CopyToClipboard
+                    title="Copy File Path"
+                    content={entry.path}
+                    shortcut={Keyboard.Shortcut.Common.Copy}
+                  />
+                  <Action.CopyToClipboard title="Copy URL" content={entry.url} />
+                  <Action.OpenInBrowser title="Open Video in Browser" url={entry.url} />
+                </ActionPanel.Section>
+                <ActionPanel.Section>
+                  {!isMissing && (
+                    <Action
+                      title={folders.has(entry.id) ? "Delete Folder" : "Delete File"}
+                      icon={Icon.Trash}
+                      style={Action.Style.Destructive}
+                      shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                      onAction={() => deleteFile(entry)}
+                    />
+                  )}
+                  <Action
+                    title="Remove from History"
+                    icon={Icon.XMarkCircle}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "backspace" }}
+                    onAction={async () => {
+                      await removeHistoryEntry(entry.id);
+                      await refresh();
+                    }}
+                  />
+                  <Action
+                    title="Clear History"
+                    icon={Icon.Eraser}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl", "shift"], key: "backspace" }}
+                    onAction={async () => {
+                      const confirmed = await confirmAlert({
+                        title: "Clear Download History?",
+                        message: "All entries are removed. Downloaded files stay on disk.",
+                        primaryAction: { title: "Clear", style: Alert.ActionStyle.Destructive },
+                      });
+                      if (!confirmed) return;
+                      await clearHistory();
+                      await refresh();
+                    }}
+                  />
+                </ActionPanel.Section>
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+}
@@ -0,0 +1,217 @@
+import {
+  Action,
+  ActionPanel,
+  Color,
+  Icon,
+  List,
+  openExtensionPreferences,
+  showToast,
+  Toast,
+  confirmAlert,
+  Alert,
+} from "@raycast/api";
+import { getProgressIcon } from "@raycast/utils";
+import { useState, useEffect, useRef } from "react";
+import { findCommandPath } from "./utils/binaries";
+import {
+  DownloadJob,
+  JobState,
+  cancelJob,
+  clearFinishedJobs,
+  getJobs,
+  moveJob,
+  pauseJob,
+  processQueue,
+  removeJob,
+  resumeJob,
+  retryJob,
+  subscribeToJobs,
+} from "./utils/queue";
+
+// Jobs are persisted by whichever command runs them, so the list polls for live progress
+const REFRESH_INTERVAL = 1000;
+
+const stateLabels: Record<JobState, { text: string; color: Color; icon: Icon }> = {
+  queued: { text: "Queued", color: Color.SecondaryText, icon: Icon.Clock },
+  running: { text: "Downloading", color: Color.Blue, icon: Icon.Download },
+  paused: { text: "Paused", color: Color.Yellow, icon: Icon.Pause },
+  failed: { text: "Failed", color: Color.Red, icon: Icon.XMarkCircle },
+  done: { text: "Done", color: Color.Green, icon: Icon.CheckCircle },
+};
+
+export default function Command() {
+  const [jobs, setJobs] = useState<DownloadJob[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const pathsRef = useRef<{ ytDlpPath: string; ffmpegPath: string } | null>(null);
+
+  const refresh = async () => {
+    setJobs(await getJobs());
+    setIsLoading(false);
+  };
+
+  // Runs after every action so freed slots are filled straight away
+  const runAndRefresh = async (action: () => Promise<unknown>) => {
+    await action();
+    if (pathsRef.current) {
+      await processQueue(pathsRef.current.ytDlpPath, pathsRef.current.ffmpegPath);
+    }
+    await refresh();
+  };
+
+  useEffect(() => {
+    async function initialize() {
+      const [ytDlpPath, ffmpegPath] = await Promise.all([findCommandPath("yt-dlp"), findCommandPath("ffmpeg")]);
+      if (ytDlpPath && ffmpegPath) {
+        pathsRef.current = { ytDlpPath, ffmpegPath };
+        await processQueue(ytDlpPath, ffmpegPath);
+      } else {
+        await showToast(Toast.Style.Failure, "Missing Dependencies", "Queued downloads need yt-dlp and ffmpeg.");
+      }
+      await refresh();
+    }
+    initialize();
+
+    const interval = setInterval(refresh, REFRESH_INTERVAL);
+    const unsubscribe = subscribeToJobs((updated) =>
+      setJobs((current) => current.map((job) => (job.id === updated.id ? updated : job))),
+    );
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, []);
+
+  const getIcon = (job: DownloadJob) => {
+    if (job.state === "running" && job.progress) {
+      const { percentage, currentItem, totalItems } = job.progress;
+      const fraction = totalItems && currentItem ? (currentItem - 1 + percentage / 100) / totalItems : percentage / 100;
+      return getProgressIcon(fraction, Color.Blue);
+    }
+    return { source: stateLabels[job.state].icon, tintColor: stateLabels[job.state].color };
+  };
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Filter downloads by title or URL">
+      <List.EmptyView
+        icon={Icon.Download}
+        title="No Downloads"
+        description="Downloads you start from Download Youtube Video appear here."
+      />
+      {jobs.map((job, index) => (
+        <List.Item
+          key={job.id}
+          icon={getIcon(job)}
+          title={job.title}
+          subtitle={job.message}
+          keywords={[job.url]}
+          accessories={[
+            {
+              tag: {
+                value: job.state === "queued" && job.retryAt ? "Retry Pending" : stateLabels[job.state].text,
+                color: stateLabels[job.state].color,
+              },
+            },
+            { date: new Date(job.finishedAt || job.startedAt || job.createdAt) },
+          ]}
+          actions={
+            <ActionPanel>
+              <ActionPanel.Section>
+                {job.state === "done" && job.outputFile && (
+                  <>
+                    <Action.Open title="Open File" target={job.outputFile} />
+                    <Action.ShowInFinder path={job.outputFile} />
+                  </>
+                )}
+                {job.state === "running" && (
+                  <Action
+                    title="Pause Download"
+                    icon={Icon.Pause}
+                    onAction={() => runAndRefresh(() => pauseJob(job.id))}
+                  />
+                )}
+                {job.state === "paused" && (
+                  <Action
+                    title="Resume Download"
+                    icon={Icon.Play}
+                    onAction={() => runAndRefresh(() => resumeJob(job.id))}
+                  />
+                )}
+                {job.state === "queued" && job.retryAt && (
+                  <Action
+                    title="Retry Now"
+                    icon={Icon.RotateClockwise}
+                    onAction={() => runAndRefresh(() => retryJob(job.id))}
+                  />
+                )}
+                {job.state === "failed" && (
+                  <Action
+                    // Partial files are kept, so a retry continues where the download stopped
+                    title={job.partialFiles?.length ? "Resume Download" : "Retry Download"}
+                    icon={Icon.RotateClockwise}
+                    onAction={() => runAndRefresh(() => retryJob(job.id))}
+                  />
+                )}
+                {(job.state === "queued" || job.state === "running" || job.state === "paused") && (
+                  <Action
+                    title="Cancel Download"
+                    icon={Icon.XMarkCircle}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                    onAction={() => runAndRefresh(() => cancelJob(job.id))}
+                  />
+                )}
+              </ActionPanel.Section>
+              <ActionPanel.Section>
+                {index > 0 && (
+                  <Action
+                    // The rule would lowercase "up", which reads wrong next to "Move Down"
+                    // eslint-disable-next-line @raycast/prefer-title-case
+                    title="Move Up"
+                    icon={Icon.ArrowUp}
+                    shortcut={{ modifiers: ["cmd", "opt"], key: "arrowUp" }}
+                    onAction={() => runAndRefresh(() => moveJob(job.id, -1))}
+                  />
+                )}
+                {index < jobs.length - 1 && (
+                  <Action
+                    title="Move Down"
+                    icon={Icon.ArrowDown}
+                    shortcut={{ modifiers: ["cmd", "opt"], key: "arrowDown" }}
+                    onAction={() => runAndRefresh(() => moveJob(job.id, 1))}
+                  />
+                )}
+              </ActionPanel.Section>
+              <ActionPanel.Section>
+                <Action.CopyToClipboard title="Copy URL" content={job.url} />
+                {job.errorDetails && <Action.CopyToClipboard title="Copy Error Details" content={job.errorDetails} />}
+                {job.state !== "running" && (
+                  <Action
+                    title="Remove from List"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "backspace" }}
+                    onAction={() => runAndRefresh(() => removeJob(job.id))}
+                  />
+                )}
+                <Action
+                  title="Clear Finished Downloads"
+                  icon={Icon.Eraser}
+                  shortcut={{ modifiers: ["ctrl", "shift"], key: "backspace" }}
+                  onAction={async () => {
+                    const confirmed = await confirmAlert({
+                      title: "Clear Finished Downloads?",
+                      message: "Completed downloads are removed from this list. The files stay on disk.",
+                      primaryAction: { title: "Clear", style: Alert.ActionStyle.Destructive },
+                    });
+                    if (confirmed) await runAndRefresh(clearFinishedJobs);
+                  }}
+                />
+                <Action title="Set Concurrent Downloads" icon={Icon.Gear} onAction={openExtensionPreferences} />
+              </ActionPanel.Section>
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
@@ -0,0 +1,281 @@
+import {
+  Action,
+  ActionPanel,
+  Clipboard,
+  Detail,
+  Form,
+  Icon,
+  Toast,
+  showToast,
+  useNavigation,
+  Keyboard,
+  LaunchProps,
+} from "@raycast/api";
+import { useState, useEffect } from "react";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { findCommandPath } from "./utils/binaries";
+import { describeDownloadError } from "./utils/errors";
+import { SubtitleSource, getDefaultSubtitleLanguage, getSubtitleLanguages } from "./utils/subtitles";
+import { buildTranscript, fetchCaptions, parseVtt } from "./utils/transcript";
+import { getUrlOptions, parseMediaUrl } from "./utils/url";
+import { VideoInfo, fetchVideoInfo } from "./utils/video-info";
+
+interface TranscriptProps {
+  title: string;
+  transcript: string;
+  format: "text" | "markdown";
+  language: string;
+  outputPath: string;
+}
+
+function TranscriptDetail({ title, transcript, format, language, outputPath }: TranscriptProps) {
+  const extension = format === "markdown" ? "md" : "txt";
+  const fileName = `${title.replace(/[/\\:*?"<>|]/g, "-").trim()}.${language}.${extension}`;
+  const words = transcript.split(/\s+/).filter(Boolean).length;
+
+  return (
+    <Detail
+      navigationTitle={title}
+      markdown={transcript}
+      metadata={
+        <Detail.Metadata>
+          <Detail.Metadata.Label title="Language" text={language} />
+          <Detail.Metadata.Label title="Words" text={words.toLocaleString()} />
+          <Detail.Metadata.Label title="Format" text={format === "markdown" ? "Markdown" : "Plain Text"} />
+        </Detail.Metadata>
+      }
+      actions={
+        <ActionPanel>
+          <Action.CopyToClipboard title="Copy Transcript" content={transcript} />
+          <Action.Paste title="Paste into Frontmost App" content={transcript} />
+          <Action
+            title="Save to Output Folder"
+            icon={Icon.SaveDocument}
+            shortcut={Keyboard.Shortcut.Common.Save}
+            onAction={async () => {
+              const filePath = path.join(outputPath, fileName);
+              try {
+                await fs.promises.writeFile(filePath, transcript, "utf8");
+                await showToast({
+                  style: Toast.Style.Success,
+                  title: "Transcript Saved",
+                  message: fileName,
+                  primaryAction: { title: "Copy Path", onAction: () => Clipboard.copy(filePath) },
+                });
+              } catch (error) {
+                console.error("Error saving transcript:", error);
+                await showToast(Toast.Style.Failure, "Failed to Save Transcript", String(error));
+              }
+            }}
+          />
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+// Set when another command, such as Search YouTube, opens the transcript for a video
+interface TranscriptLaunchContext {
+  url?: string;
+}
+
+export default function Command({ launchContext }: LaunchProps<{ launchContext?: TranscriptLaunchContext }>) {
+  const { push } = useNavigation();
+  const [url, setUrl] = useState("");
+  const [urlError, setUrlError] = useState<string | undefined>();
+  const [videoInfo, setVideoInfo] = useState<VideoInfo | null>(null);
+  const [source, setSource] = useState<SubtitleSource>("both");
+  const [language, setLanguage] = useState("");
+  const [format, setFormat] = useState<"text" | "markdown">("markdown");
+  const [timestamps, setTimestamps] = useState(false);
+  const [paragraphs, setParagraphs] = useState(true);
+  const [chapterHeadings, setChapterHeadings] = useState(true);
+  const [outputPath, setOutputPath] = useState(path.join(os.homedir(), "Downloads"));
+  const [isLoading, setIsLoading] = useState(true);
+  const [ytDlpPath, setYtDlpPath] = useState<string | null>(null);
+
+  const languages = getSubtitleLanguages(videoInfo, source);
+  const urlOptions = getUrlOptions();
+  const normalizedUrl = parseMediaUrl(url, urlOptions)?.url || url;
+
+  const validateUrl = (value: string): boolean => {
+    if (!value) {
+      setUrlError("URL cannot be empty. Please enter a YouTube video URL.");
+      return false;
+    }
+    // Transcripts come from a single video, so playlist and channel pages don't qualify
+    if (parseMediaUrl(value, urlOptions)?.kind !== "video") {
+      setUrlError(
+        urlOptions.anySite
+          ? "Please enter a valid http(s) URL of a video."
+          : "Please enter a valid YouTube video URL (e.g., youtube.com/watch?v=..., youtu.be/... or a Short).",
+      );
+      return false;
+    }
+    setUrlError(undefined);
+    return true;
+  };
+
+  useEffect(() => {
+    async function initialize() {
+      const [foundYtDlpPath, clipboardText] = await Promise.all([findCommandPath("yt-dlp"), Clipboard.readText()]);
+      setYtDlpPath(foundYtDlpPath);
+      const clipboardUrl = clipboardText ? parseMediaUrl(clipboardText, urlOptions) : null;
+      if (launchContext?.url) {
+        setUrl(launchContext.url);
+      } else if (clipboardUrl?.kind === "video") {
+        setUrl(clipboardUrl.url);
+      }
+      if (!foundYtDlpPath) {
+        await showToast(
+          Toast.Style.Failure,
+          "yt-dlp Not Found",
+          "Install yt-dlp, or set its path in the extension preferences. Run Check Setup for details.",
+        );
+      }
+      setIsLoading(false);
+    }
+    initialize();
+  }, []);
+
+  // Load the caption languages for the current URL
+  useEffect(() => {
+    if (!ytDlpPath || !url || !validateUrl(url)) {
+      setVideoInfo(null);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    fetchVideoInfo(ytDlpPath, normalizedUrl)
+      .then((info) => !cancelled && setVideoInfo(info))
+      .catch((error) => {
+        console.error("Error getting video info:", error);
+        if (!cancelled) setVideoInfo(null);
+      })
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [url, ytDlpPath]);
+
+  useEffect(() => {
+    if (!languages.some((l) => l.code === language)) {
+      setLanguage(getDefaultSubtitleLanguage(languages) || "");
+    }
+  }, [videoInfo, source]);
+
+  const handleSubmit = async () => {
+    if (!validateUrl(url) || !ytDlpPath) return;
+    if (!language) {
+      await showToast(Toast.Style.Failure, "No Captions", "This video has no captions from the selected source.");
+      return;
+    }
+
+    setIsLoading(true);
+    const toast = await showToast(Toast.Style.Animated, "Fetching Captions...");
+    try {
+      const vtt = await fetchCaptions(ytDlpPath, normalizedUrl, language, source);
+      if (!vtt) {
+        toast.style = Toast.Style.Failure;
+        toast.title = "No Captions Found";
+        toast.message = `No ${language} captions could be downloaded.`;
+        return;
+      }
+
+      const title = videoInfo?.title || "Transcript";
+      const transcript = buildTranscript(parseVtt(vtt), {
+        format,
+        timestamps,
+        paragraphs,
+        chapters: chapterHeadings ? videoInfo?.chapters || undefined : undefined,
+        title,
+        url: normalizedUrl,
+      });
+      toast.style = Toast.Style.Success;
+      toast.title = "Transcript Ready";
+      push(
+        <TranscriptDetail
+          title={title}
+          transcript={transcript}
+          format={format}
+          language={language}
+          outputPath={outputPath}
+        />,
+      );
+    } catch (error) {
+      console.error("Transcript error:", error);
+      toast.style = Toast.Style.Failure;
+      toast.title = "Failed to Get Transcript";
+      // yt-dlp's own reason, without the proxy credentials and cookies file from its command line
+      toast.message = describeDownloadError(error, "", ytDlpPath).message;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Form
+      isLoading={isLoading}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Get Transcript" icon={Icon.Text} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="url"
+        title={urlOptions.anySite ? "Video URL" : "YouTube URL"}
+        placeholder="e.g., https://www.youtube.com/watch?v=dQw4w9WgXcQ"
+        value={url}
+        error={urlError}
+        onChange={setUrl}
+        onBlur={(e) => validateUrl(e.target.value || "")}
+      />
+      <Form.Dropdown
+        id="source"
+        title="Captions"
+        value={source}
+        onChange={(value) => setSource(value as SubtitleSource)}
+      >
+        <Form.Dropdown.Item value="both" title="Uploaded, Then Auto-Generated" />
+        <Form.Dropdown.Item value="manual" title="Uploaded Only" />
+        <Form.Dropdown.Item value="auto" title="Auto-Generated Only" />
+      </Form.Dropdown>
+      <Form.Dropdown id="language" title="Language" value={language} onChange={setLanguage}>
+        {languages.map((l) => (
+          <Form.Dropdown.Item key={l.code} value={l.code} title={`${l.name} (${l.code})`} />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown
+        id="format"
+        title="Format"
+        value={format}
+        onChange={(value) => setFormat(value as "text" | "markdown")}
+      >
+        <Form.Dropdown.Item value="markdown" title="Markdown" />
+        <Form.Dropdown.Item value="text" title="Plain Text" />
+      </Form.Dropdown>
+      <Form.Checkbox id="paragraphs" label="Group into paragraphs" value={paragraphs} onChange={setParagraphs} />
+      <Form.Checkbox id="timestamps" label="Include timestamps" value={timestamps} onChange={setTimestamps} />
+      <Form.Checkbox
+        id="chapterHeadings"
+        label="Add chapter headings"
+        value={chapterHeadings}
+        onChange={setChapterHeadings}
+      />
+      {videoInfo && !videoInfo.chapters?.length && chapterHeadings && (
+        <Form.Description text="This video has no chapters." />
+      )}
+      <Form.Separator />
+      <Form.TextField
+        id="outputPath"
+        title="Output Folder"
+        placeholder="e.g., /Users/username/Downloads"
+        value={outputPath}
+        onChange={setOutputPath}
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,244 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Clipboard,
+  Color,
+  Form,
+  Icon,
+  Keyboard,
+  List,
+  Toast,
+  confirmAlert,
+  showToast,
+  useNavigation,
+} from "@raycast/api";
+import { useState, useEffect } from "react";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { PresetForm } from "./components/preset-form";
+import { describeSettings } from "./utils/download";
+import {
+  Preset,
+  deletePreset,
+  exportPresets,
+  getDefaultPresetId,
+  getPresets,
+  importPresets,
+  setDefaultPresetId,
+} from "./utils/presets";
+
+function ImportPresetsForm({ onImport }: { onImport: () => void }) {
+  const { pop } = useNavigation();
+  const [json, setJson] = useState("");
+  const [files, setFiles] = useState<string[]>([]);
+
+  useEffect(() => {
+    // Prefill with copied presets, e.g. from a teammate's "Copy Presets as JSON"
+    Clipboard.readText().then((text) => {
+      if (text?.trim().startsWith("{") || text?.trim().startsWith("[")) setJson(text);
+    });
+  }, []);
+
+  const handleSubmit = async () => {
+    try {
+      const text = files.length > 0 ? await fs.promises.readFile(files[0], "utf8") : json;
+      const { imported, skipped } = await importPresets(text);
+      const count = `${imported} preset${imported === 1 ? "" : "s"}`;
+      if (skipped.length > 0) {
+        await showToast(Toast.Style.Failure, `Imported ${count}`, `Skipped ${skipped.join(", ")}`);
+      } else {
+        await showToast(Toast.Style.Success, "Presets Imported", count);
+      }
+      onImport();
+      pop();
+    } catch (error) {
+      await showToast(Toast.Style.Failure, "Import Failed", error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <Form
+      navigationTitle="Import Presets"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Import Presets" icon={Icon.Download} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.FilePicker
+        id="file"
+        title="Presets File"
+        allowMultipleSelection={false}
+        value={files}
+        onChange={setFiles}
+      />
+      <Form.TextArea
+        id="json"
+        title="Or Paste JSON"
+        placeholder='{ "version": 1, "presets": [...] }'
+        value={json}
+        onChange={setJson}
+      />
+      <Form.Description text="Presets with the same name as one of yours replace it." />
+    </Form>
+  );
+}
+
+export default function Command() {
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [defaultPresetId, setDefaultPreset] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = async () => {
+    const [allPresets, defaultId] = await Promise.all([getPresets(), getDefaultPresetId()]);
+    setPresets(allPresets);
+    setDefaultPreset(defaultId);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const toggleDefault = async (preset: Preset) => {
+    const isDefault = preset.id === defaultPresetId;
+    await setDefaultPresetId(isDefault ? undefined : preset.id);
+    await showToast(Toast.Style.Success, isDefault ? "Default Preset Cleared" : "Default Preset Set", preset.name);
+    await refresh();
+  };
+
+  const removePreset = async (preset: Preset) => {
+    const confirmed = await confirmAlert({
+      title: "Delete Preset?",
+      message: `${preset.name} will be deleted.`,
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+    await deletePreset(preset.id);
+    await showToast(Toast.Style.Success, "Preset Deleted", preset.name);
+    await refresh();
+  };
+
+  const saveExport = async () => {
+    const filePath = path.join(os.homedir(), "Downloads", "youtube-downloader-presets.json");
+    try {
+      await fs.promises.writeFile(filePath, await exportPresets(), "utf8");
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Presets Exported",
+        message: path.basename(filePath),
+        primaryAction: { title: "Copy Path", onAction: () => Clipboard.copy(filePath) },
+      });
+    } catch (error) {
+      console.error("Error exporting presets:", error);
+      await showToast(Toast.Style.Failure, "Failed to Export Presets", String(error));
+    }
+  };
+
+  const sharedActions = (
+    <>
+      <Action.Push
+        title="Create Preset"
+        icon={Icon.Plus}
+        shortcut={Keyboard.Shortcut.Common.New}
+        target={<PresetForm onSave={refresh} />}
+      />
+      <Action.Push
+        title="Import Presets"
+        icon={Icon.Download}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "i" }}
+        target={<ImportPresetsForm onImport={refresh} />}
+      />
+      <Action
+        title="Copy Presets as JSON"
+        icon={Icon.CopyClipboard}
+        shortcut={Keyboard.Shortcut.Common.Copy}
+        onAction={async () => {
+          await Clipboard.copy(await exportPresets());
+          await showToast(Toast.Style.Success, "Presets Copied");
+        }}
+      />
+      <Action
+        title="Export Presets to Downloads"
+        icon={Icon.Upload}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}
+        onAction={saveExport}
+      />
+    </>
+  );
+
+  const renderPreset = (preset: Preset) => {
+    const isDefault = preset.id === defaultPresetId;
+    const accessories: List.Item.Accessory[] = [{ text: describeSettings({ ...preset, outputPath: "" }) }];
+    if (isDefault) accessories.unshift({ tag: { value: "Default", color: Color.Green } });
+
+    return (
+      <List.Item
+        key={preset.id}
+        title={preset.name}
+        subtitle={preset.description}
+        icon={preset.builtIn ? Icon.Lock : Icon.Document}
+        accessories={accessories}
+        actions={
+          <ActionPanel>
+            <ActionPanel.Section>
+              {!preset.builtIn && (
+                <Action.Push
+                  title="Edit Preset"
+                  icon={Icon.Pencil}
+                  target={<PresetForm preset={preset} isDefault={isDefault} onSave={refresh} />}
+                />
+              )}
+              <Action
+                title={isDefault ? "Clear Default Preset" : "Set as Default"}
+                icon={isDefault ? Icon.StarDisabled : Icon.Star}
+                shortcut={{ modifiers: ["cmd"], key: "d" }}
+                onAction={() => toggleDefault(preset)}
+              />
+              <Action.Push
+                title="Duplicate Preset"
+                icon={Icon.Duplicate}
+                shortcut={Keyboard.Shortcut.Common.Duplicate}
+                target={
+                  <PresetForm
+                    preset={{ ...preset, id: "", name: `${preset.name} Copy`, builtIn: undefined }}
+                    onSave={refresh}
+                  />
+                }
+              />
+              {!preset.builtIn && (
+                <Action
+                  title="Delete Preset"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  shortcut={Keyboard.Shortcut.Common.Remove}
+                  onAction={() => removePreset(preset)}
+                />
+              )}
+            </ActionPanel.Section>
+            <ActionPanel.Section>{sharedActions}</ActionPanel.Section>
+          </ActionPanel>
+        }
+      />
+    );
+  };
+
+  const userPresets = presets.filter((preset) => !preset.builtIn);
+
+  return (
+    <List
+      isLoading={isLoading}
+      searchBarPlaceholder="Search presets"
+      actions={<ActionPanel>{sharedActions}</ActionPanel>}
+    >
+      <List.Section title="Your Presets" subtitle={String(userPresets.length)}>
+        {userPresets.map(renderPreset)}
+      </List.Section>
+      <List.Section title="Built-In Presets">
+        {presets.filter((preset) => preset.builtIn).map(renderPreset)}
+      </List.Section>
+    </List>
+  );
+}
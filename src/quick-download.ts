@@ -0,0 +1,99 @@
+import { Clipboard, LaunchProps, LaunchType, Toast, launchCommand, showToast } from "@raycast/api";
+import { findCommandPath } from "./utils/binaries";
+import { describeDownloadError } from "./utils/errors";
+import { getDefaultFilenameSettings } from "./utils/filename";
+import { trackJobInToast } from "./utils/job-toast";
+import { Preset, getDefaultPreset, getPresetDownloadSettings, getPresets } from "./utils/presets";
+import { enqueueDownload, processQueue, waitForJob } from "./utils/queue";
+import { getUrlOptions, parseMediaUrl } from "./utils/url";
+import { fetchVideoInfo } from "./utils/video-info";
+import os from "os";
+import path from "path";
+
+interface QuickDownloadArguments {
+  preset?: string;
+}
+
+// Matches a typed preset name loosely, so "audio" finds "🎵 Audio Only"
+const findPreset = (presets: Preset[], query: string): Preset | undefined => {
+  const normalize = (value: string) =>
+    value
+      .replace(/[^\p{L}\p{N}]+/gu, " ")
+      .trim()
+      .toLowerCase();
+  const wanted = normalize(query);
+  return (
+    presets.find((preset) => normalize(preset.name) === wanted) ||
+    presets.find((preset) => normalize(preset.name).includes(wanted))
+  );
+};
+
+// Downloads the URL on the clipboard with the default preset, reporting only through toasts
+export default async function Command(props: LaunchProps<{ arguments: QuickDownloadArguments }>) {
+  const urlOptions = getUrlOptions();
+  const clipboardText = (await Clipboard.readText())?.trim();
+  const parsed = clipboardText ? parseMediaUrl(clipboardText, urlOptions) : null;
+  if (!parsed) {
+    await showToast(
+      Toast.Style.Failure,
+      "No Supported URL on the Clipboard",
+      urlOptions.anySite ? "Copy the link of a video, playlist or channel first." : "Copy a YouTube link first.",
+    );
+    return;
+  }
+
+  const [ytDlpPath, ffmpegPath] = await Promise.all([findCommandPath("yt-dlp"), findCommandPath("ffmpeg")]);
+  if (!ytDlpPath || !ffmpegPath) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Missing Dependencies",
+      message: `${ytDlpPath ? "ffmpeg" : "yt-dlp"} not found.`,
+      primaryAction: {
+        title: "Check Setup",
+        onAction: () => launchCommand({ name: "check-setup", type: LaunchType.UserInitiated }),
+      },
+    });
+    return;
+  }
+
+  const query = props.arguments.preset?.trim();
+  const preset = query ? findPreset(await getPresets(), query) : await getDefaultPreset();
+  if (!preset) {
+    await showToast(Toast.Style.Failure, "Preset Not Found", `No preset is called "${query}".`);
+    return;
+  }
+
+  const settings = getPresetDownloadSettings(
+    preset,
+    path.join(os.homedir(), "Downloads"),
+    getDefaultFilenameSettings(),
+  );
+  let title = parsed.url;
+  let duration: number | undefined;
+  if (parsed.kind === "video") {
+    // Reading the info first catches private, removed and region-locked videos before anything is queued
+    const toast = await showToast(Toast.Style.Animated, "Reading Video Info...", parsed.url);
+    try {
+      const info = await fetchVideoInfo(ytDlpPath, parsed.url);
+      title = info.title || title;
+      duration = info.duration;
+    } catch (error) {
+      const { message } = describeDownloadError(error, "", ytDlpPath);
+      toast.style = Toast.Style.Failure;
+      toast.title = "Can't Download This URL";
+      toast.message = message;
+      return;
+    }
+  } else {
+    settings.playlist = { title: parsed.playlistId || parsed.url.replace(/^https:\/\/www\.youtube\.com\//, "") };
+  }
+
+  const job = await enqueueDownload(parsed.url, title, settings, duration);
+  await trackJobInToast(job);
+  // Only this job runs in the command's process, which stays alive until it's over. With the queue full, it starts
+  // once a download frees a slot, unless another command gets to it first.
+  const start = () => processQueue(ytDlpPath, ffmpegPath, job.id);
+  const finished = waitForJob(job.id, start);
+  start();
+  await finished;
+}
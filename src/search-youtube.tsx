@@ -0,0 +1,263 @@
+import {
+  Action,
+  ActionPanel,
+  Icon,
+  Keyboard,
+  LaunchType,
+  List,
+  Toast,
+  launchCommand,
+  openExtensionPreferences,
+  showToast,
+} from "@raycast/api";
+import { useEffect, useState } from "react";
+import os from "os";
+import path from "path";
+import { findCommandPath } from "./utils/binaries";
+import { describeDownloadError } from "./utils/errors";
+import { getDefaultFilenameSettings } from "./utils/filename";
+import { formatDuration, formatViewCount, parseUploadDate } from "./utils/format";
+import { trackJobInToast } from "./utils/job-toast";
+import { Preset, getDefaultPreset, getPresetDownloadSettings, getPresets } from "./utils/presets";
+import { enqueueDownload, processQueue } from "./utils/queue";
+import { SearchResult, searchVideos } from "./utils/search";
+import { VideoInfo, fetchVideoInfo } from "./utils/video-info";
+
+// Wait for a pause in typing before starting yt-dlp, which takes a few seconds per search
+const SEARCH_DELAY = 500;
+// Likewise for the selected video's details, so moving through the list doesn't start yt-dlp for every row
+const DETAILS_DELAY = 400;
+
+export default function Command() {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [paths, setPaths] = useState<{ ytDlpPath: string | null; ffmpegPath: string | null }>();
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [defaultPreset, setDefaultPreset] = useState<Preset>();
+  const [isShowingDetail, setIsShowingDetail] = useState(true);
+  // Search entries lack the upload date and full description, so the selected video is looked up once
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [details, setDetails] = useState<Record<string, VideoInfo>>({});
+
+  useEffect(() => {
+    async function initialize() {
+      const [ytDlpPath, ffmpegPath, allPresets, preset] = await Promise.all([
+        findCommandPath("yt-dlp"),
+        findCommandPath("ffmpeg"),
+        getPresets(),
+        getDefaultPreset(),
+      ]);
+      setPaths({ ytDlpPath, ffmpegPath });
+      setPresets(allPresets);
+      setDefaultPreset(preset);
+    }
+    initialize();
+  }, []);
+
+  useEffect(() => {
+    const ytDlpPath = paths?.ytDlpPath;
+    const trimmed = query.trim();
+    if (!ytDlpPath || !trimmed) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+    // Typing on cancels the pending search, and the yt-dlp process if it already started
+    const controller = new AbortController();
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        setResults(await searchVideos(ytDlpPath, trimmed, controller.signal));
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Error searching YouTube:", error);
+        const { message } = describeDownloadError(error, "", ytDlpPath);
+        await showToast(Toast.Style.Failure, "Search Failed", message);
+      }
+      if (!controller.signal.aborted) setIsSearching(false);
+    }, SEARCH_DELAY);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, paths]);
+
+  useEffect(() => {
+    const ytDlpPath = paths?.ytDlpPath;
+    const result = results.find((item) => item.id === selectedId);
+    if (!ytDlpPath || !result || details[result.id]) return;
+    // Selecting another video cancels the pending lookup, and the yt-dlp process if it already started
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      let info: VideoInfo;
+      try {
+        info = await fetchVideoInfo(ytDlpPath, result.url, controller.signal);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        // The search entry still has enough to show; the download reports any real problem
+        console.error("Error loading video details:", error);
+        info = {};
+      }
+      // Stored under the video it belongs to, so a late answer never shows up for another one
+      setDetails((current) => ({ ...current, [result.id]: info }));
+    }, DETAILS_DELAY);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [selectedId, results, paths]);
+
+  const download = async (result: SearchResult, preset: Preset) => {
+    if (!paths?.ytDlpPath || !paths.ffmpegPath) {
+      await showToast(Toast.Style.Failure, "Missing Dependencies", "yt-dlp or ffmpeg not found.");
+      return;
+    }
+    const settings = getPresetDownloadSettings(
+      preset,
+      path.join(os.homedir(), "Downloads"),
+      getDefaultFilenameSettings(),
+    );
+    const job = await enqueueDownload(result.url, result.title, settings, result.duration);
+    await trackJobInToast(job);
+    processQueue(paths.ytDlpPath, paths.ffmpegPath);
+  };
+
+  if (paths && !paths.ytDlpPath) {
+    return (
+      <List>
+        <List.EmptyView
+          icon={Icon.Warning}
+          title="yt-dlp Not Found"
+          description="Install yt-dlp, or set its path in the extension preferences."
+          actions={
+            <ActionPanel>
+              <Action
+                title="Check Setup"
+                icon={Icon.CheckList}
+                onAction={() => launchCommand({ name: "check-setup", type: LaunchType.UserInitiated })}
+              />
+              <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
+            </ActionPanel>
+          }
+        />
+      </List>
+    );
+  }
+
+  return (
+    <List
+      isLoading={!paths || isSearching}
+      isShowingDetail={isShowingDetail && results.length > 0}
+      searchBarPlaceholder="Search YouTube"
+      onSearchTextChange={setQuery}
+      onSelectionChange={setSelectedId}
+    >
+      <List.EmptyView
+        icon={Icon.MagnifyingGlass}
+        title={query.trim() ? (isSearching ? "Searching..." : "No Videos Found") : "Search YouTube"}
+        description={query.trim() ? undefined : "Type to search, then download a result or get its transcript."}
+      />
+      {results.map((result) => {
+        const info = details[result.id];
+        const description = info?.description || result.description;
+        const uploadDate = parseUploadDate(info?.upload_date || result.uploadDate);
+        const viewCount = info?.view_count ?? result.viewCount;
+        const accessories: List.Item.Accessory[] = [];
+        if (result.isLive) accessories.push({ tag: "Live" });
+        if (viewCount !== undefined) accessories.push({ text: formatViewCount(viewCount) });
+        if (result.duration) accessories.push({ text: formatDuration(result.duration), icon: Icon.Clock });
+        if (uploadDate) accessories.push({ date: uploadDate });
+
+        return (
+          <List.Item
+            key={result.id}
+            id={result.id}
+            icon={Icon.Video}
+            title={result.title}
+            subtitle={isShowingDetail ? undefined : result.channel}
+            keywords={result.channel ? [result.channel] : undefined}
+            accessories={isShowingDetail ? undefined : accessories}
+            detail={
+              <List.Item.Detail
+                markdown={`![Thumbnail](${info?.thumbnail || result.thumbnail})\n\n${description || ""}`}
+                metadata={
+                  <List.Item.Detail.Metadata>
+                    <List.Item.Detail.Metadata.Label title="Title" text={result.title} />
+                    {result.channel && <List.Item.Detail.Metadata.Label title="Channel" text={result.channel} />}
+                    <List.Item.Detail.Metadata.Label
+                      title="Duration"
+                      text={result.isLive ? "Live" : result.duration ? formatDuration(result.duration) : "Unknown"}
+                    />
+                    {viewCount !== undefined && (
+                      <List.Item.Detail.Metadata.Label title="Views" text={viewCount.toLocaleString()} />
+                    )}
+                    <List.Item.Detail.Metadata.Label
+                      title="Uploaded"
+                      text={uploadDate ? uploadDate.toLocaleDateString() : info ? "Unknown" : "Loading..."}
+                    />
+                    <List.Item.Detail.Metadata.Link title="URL" target={result.url} text={result.url} />
+                  </List.Item.Detail.Metadata>
+                }
+              />
+            }
+            actions={
+              <ActionPanel>
+                <ActionPanel.Section>
+                  {defaultPreset && (
+                    <Action
+                      title={`Download with ${defaultPreset.name}`}
+                      icon={Icon.Download}
+                      onAction={() => download(result, defaultPreset)}
+                    />
+                  )}
+                  <ActionPanel.Submenu
+                    title="Download with Preset"
+                    icon={Icon.Download}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
+                  >
+                    {presets.map((preset) => (
+                      <Action key={preset.id} title={preset.name} onAction={() => download(result, preset)} />
+                    ))}
+                  </ActionPanel.Submenu>
+                  <Action
+                    title="Get Transcript"
+                    icon={Icon.Text}
+                    shortcut={{ modifiers: ["cmd"], key: "t" }}
+                    onAction={() =>
+                      launchCommand({
+                        name: "get-transcript",
+                        type: LaunchType.UserInitiated,
+                        context: { url: result.url },
+                      })
+                    }
+                  />
+                </ActionPanel.Section>
+                <ActionPanel.Section>
+                  <Action.OpenInBrowser url={result.url} />
+                  <Action.CopyToClipboard
+                    title="Copy URL"
+                    content={result.url}
+                    shortcut={Keyboard.Shortcut.Common.Copy}
+                  />
+                  <Action
+                    title={isShowingDetail ? "Hide Details" : "Show Details"}
+                    icon={Icon.Sidebar}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "i" }}
+                    onAction={() => setIsShowingDetail((showing) => !showing)}
+                  />
+                  <Action
+                    title="Open Downloads"
+                    icon={Icon.List}
+                    shortcut={{ modifiers: ["cmd"], key: "d" }}
+                    onAction={() => launchCommand({ name: "downloads", type: LaunchType.UserInitiated })}
+                  />
+                </ActionPanel.Section>
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+}
@@ -0,0 +1,34 @@
+import { ParseUrlOptions, ParsedUrl, parseMediaUrl } from "./url";
+
+export interface BatchUrls {
+  urls: ParsedUrl[]; // valid and unique, in the order they were given
+  invalid: string[]; // looked like links but aren't supported URLs
+  duplicates: number;
+}
+
+// Anything link-shaped: full URLs, and YouTube links pasted without "https://"
+const LINK_PATTERN =
+  /https?:\/\/[^\s,;"'<>()[\]]+|\b(?:(?:www|m|music)\.)?(?:youtube\.com|youtu\.be)\/[^\s,;"'<>()[\]]+/gi;
+
+// Picks the links out of pasted text or a .txt/.csv file; other words and CSV columns are ignored
+export const parseBatchUrls = (text: string, options: ParseUrlOptions = {}): BatchUrls => {
+  const urls: ParsedUrl[] = [];
+  const invalid: string[] = [];
+  const seen = new Set<string>();
+  let duplicates = 0;
+
+  for (const [link] of text.matchAll(LINK_PATTERN)) {
+    const parsed = parseMediaUrl(link, options);
+    if (!parsed) {
+      invalid.push(link);
+    } else if (seen.has(parsed.url)) {
+      duplicates++;
+    } else {
+      seen.add(parsed.url);
+      urls.push(parsed);
+    }
+  }
+  return { urls, invalid, duplicates };
+};
+
+export const BATCH_FILE_EXTENSIONS = [".txt", ".csv"];
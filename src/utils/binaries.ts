@@ -0,0 +1,177 @@
+import { environment, getPreferenceValues } from "@raycast/api";
+import { execa } from "execa";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { buildNetworkArgs } from "./network";
+
+export type BinaryName = "yt-dlp" | "ffmpeg" | "ffprobe";
+
+interface BinaryPreferences {
+  ytDlpPath?: string;
+  ffmpegPath?: string;
+  ffprobePath?: string;
+}
+
+export interface BinaryStatus {
+  name: BinaryName;
+  path: string | null;
+  version?: string;
+  fromPreferences: boolean;
+}
+
+const preferenceKeys: Record<BinaryName, keyof BinaryPreferences> = {
+  "yt-dlp": "ytDlpPath",
+  ffmpeg: "ffmpegPath",
+  ffprobe: "ffprobePath",
+};
+
+export const INSTALL_GUIDES: Record<BinaryName, string> = {
+  "yt-dlp": "https://github.com/yt-dlp/yt-dlp/wiki/Installation",
+  ffmpeg: "https://ffmpeg.org/download.html",
+  ffprobe: "https://ffmpeg.org/download.html",
+};
+
+const getVersionArgs = (command: BinaryName) => (command === "yt-dlp" ? ["--version"] : ["-version"]);
+
+// The path set in the extension preferences, if any
+export const getPreferredPath = (command: BinaryName): string | undefined =>
+  getPreferenceValues<BinaryPreferences>()[preferenceKeys[command]]?.trim() || undefined;
+
+// Places package managers put binaries that Raycast's limited PATH doesn't cover:
+// Homebrew, MacPorts, Linuxbrew, distro packages, snaps, pip --user, pipx and an active virtualenv
+const getKnownPaths = (command: BinaryName): string[] => {
+  const home = os.homedir();
+  const dirs = [
+    process.env.VIRTUAL_ENV && path.join(process.env.VIRTUAL_ENV, "bin"),
+    os.arch() === "arm64" && "/opt/homebrew/bin",
+    "/usr/local/bin",
+    "/opt/local/bin",
+    "/home/linuxbrew/.linuxbrew/bin",
+    path.join(home, ".linuxbrew", "bin"),
+    path.join(home, ".local", "bin"),
+    path.join(home, ".local", "pipx", "venvs", command, "bin"),
+    "/usr/bin",
+    "/snap/bin",
+  ];
+  // pip install --user on macOS uses one folder per Python version
+  const pythonUserDir = path.join(home, "Library", "Python");
+  if (fs.existsSync(pythonUserDir)) {
+    for (const version of fs.readdirSync(pythonUserDir).sort().reverse()) {
+      dirs.push(path.join(pythonUserDir, version, "bin"));
+    }
+  }
+  return dirs.filter((dir): dir is string => !!dir).map((dir) => path.join(dir, command));
+};
+
+// Function to find the path of a command
+export const findCommandPath = async (command: BinaryName): Promise<string | null> => {
+  // An explicit path always wins, and is reported missing rather than silently replaced
+  const preferred = getPreferredPath(command);
+  if (preferred) return fs.existsSync(preferred) ? preferred : null;
+
+  try {
+    // Try 'which' first - if it succeeds, the command itself is the path (it's in PATH)
+    // and execa will find it.
+    await execa("which", [command]);
+    return command; // Return the command name itself, execa will resolve it via PATH
+  } catch {
+    // 'which' failed, try the known install locations
+    for (const p of getKnownPaths(command)) {
+      if (!fs.existsSync(p)) continue;
+      try {
+        await execa(p, getVersionArgs(command));
+        return p; // Return the full path
+      } catch {
+        // Continue to next path
+      }
+    }
+    return null; // Not found
+  }
+};
+
+// "2024.08.06" for yt-dlp, "7.0.1" for ffmpeg and ffprobe
+export const getBinaryVersion = async (command: BinaryName, binaryPath: string): Promise<string | undefined> => {
+  try {
+    const { stdout } = await execa(binaryPath, getVersionArgs(command), { timeout: 15000 });
+    const firstLine = stdout.trim().split("\n")[0];
+    return command === "yt-dlp" ? firstLine : firstLine.match(/version (\S+)/)?.[1];
+  } catch {
+    return undefined;
+  }
+};
+
+// Full path of a binary found on PATH, so the setup check can show where it lives
+const resolveOnPath = async (command: BinaryName): Promise<string> => {
+  try {
+    return (await execa("which", [command])).stdout.trim() || command;
+  } catch {
+    return command;
+  }
+};
+
+// What yt-dlp's --ffmpeg-location points at. yt-dlp looks for ffprobe next to ffmpeg, so when the preferences put
+// ffprobe in another folder, both are linked into one folder in the extension's support directory instead.
+export const getFfmpegLocation = async (ffmpegPath: string): Promise<string> => {
+  const ffprobePath = getPreferredPath("ffprobe");
+  if (!ffprobePath || !fs.existsSync(ffprobePath)) return ffmpegPath;
+  const ffmpeg = ffmpegPath === "ffmpeg" ? await resolveOnPath("ffmpeg") : ffmpegPath;
+  if (!path.isAbsolute(ffmpeg) || path.dirname(ffmpeg) === path.dirname(ffprobePath)) return ffmpegPath;
+
+  const folder = path.join(environment.supportPath, "ffmpeg");
+  await fs.promises.mkdir(folder, { recursive: true });
+  for (const [name, target] of [
+    ["ffmpeg", ffmpeg],
+    ["ffprobe", ffprobePath],
+  ]) {
+    // Renamed into place, since downloads running side by side relink at the same time
+    const link = path.join(folder, name);
+    const pending = `${link}.${process.pid}-${Date.now()}`;
+    await fs.promises.symlink(target, pending);
+    await fs.promises.rename(pending, link);
+  }
+  return folder;
+};
+
+export const getBinaryStatus = async (command: BinaryName): Promise<BinaryStatus> => {
+  const binaryPath = await findCommandPath(command);
+  return {
+    name: command,
+    path: binaryPath === command ? await resolveOnPath(command) : binaryPath,
+    version: binaryPath ? await getBinaryVersion(command, binaryPath) : undefined,
+    fromPreferences: !!getPreferredPath(command),
+  };
+};
+
+// The newest yt-dlp release tag, e.g. "2024.08.06"
+export const getLatestYtDlpVersion = async (): Promise<string | undefined> => {
+  const response = await fetch("https://api.github.com/repos/yt-dlp/yt-dlp/releases/latest", {
+    headers: { Accept: "application/vnd.github+json" },
+  });
+  if (!response.ok) throw new Error(`GitHub answered with HTTP ${response.status}.`);
+  const { tag_name } = (await response.json()) as { tag_name?: string };
+  return tag_name;
+};
+
+// Release versions are dates, optionally with a build number: 2024.08.06 < 2024.08.06.1 < 2024.09.01
+export const isVersionOlder = (version: string, latest: string): boolean =>
+  version.localeCompare(latest, undefined, { numeric: true }) < 0;
+
+// The command that updates yt-dlp the way it was installed; the standalone binary updates itself
+export const getYtDlpUpdateCommand = (ytDlpPath: string): string => {
+  const resolved = fs.existsSync(ytDlpPath) ? fs.realpathSync(ytDlpPath) : ytDlpPath;
+  if (/homebrew|linuxbrew|Cellar/.test(resolved)) return "brew upgrade yt-dlp";
+  if (/pipx/.test(resolved)) return "pipx upgrade yt-dlp";
+  if (/site-packages|Library\/Python|\.local\/bin|venv/.test(resolved)) return "python3 -m pip install -U yt-dlp";
+  if (resolved.startsWith("/snap/")) return "sudo snap refresh yt-dlp";
+  return `${ytDlpPath} -U`;
+};
+
+// Runs yt-dlp's self-update. Package manager installs refuse it and say which tool to use instead.
+export const updateYtDlp = async (ytDlpPath: string): Promise<string> => {
+  const { stdout, stderr } = await execa(ytDlpPath, ["-U", ...buildNetworkArgs()], { timeout: 120000, reject: false });
+  const output = `${stdout}\n${stderr}`.trim();
+  const error = output.match(/ERROR: (.*)/)?.[1];
+  if (error) throw new Error(error);
+  return output.split("\n").pop() || "yt-dlp is up to date.";
+};
@@ -0,0 +1,56 @@
+import path from "path";
+import { formatDuration } from "./format";
+
+export interface ClipSettings {
+  start?: number; // in seconds, from the beginning when omitted
+  end?: number; // in seconds, to the end when omitted
+  exactCuts: boolean;
+}
+
+// Parses "83", "1:23", "1:02:03" or "1h2m3s" into seconds; null when the input is not a time
+export const parseTimeInput = (value: string): number | null => {
+  const input = value.trim().toLowerCase();
+  if (/^\d+(\.\d+)?$/.test(input)) return parseFloat(input);
+
+  const colonMatch = input.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/);
+  if (colonMatch) {
+    return parseInt(colonMatch[1] || "0") * 3600 + parseInt(colonMatch[2]) * 60 + parseFloat(colonMatch[3]);
+  }
+
+  const unitMatch = input.match(/^(?:(\d+)\s*h)?\s*(?:(\d+)\s*m)?\s*(?:(\d+(?:\.\d+)?)\s*s)?$/);
+  if (unitMatch && (unitMatch[1] || unitMatch[2] || unitMatch[3])) {
+    return parseInt(unitMatch[1] || "0") * 3600 + parseInt(unitMatch[2] || "0") * 60 + parseFloat(unitMatch[3] || "0");
+  }
+  return null;
+};
+
+// Length of the clipped part, or of the whole video when nothing is clipped
+export const getClipDuration = (clip: ClipSettings | undefined, duration: number): number => {
+  if (!clip) return duration;
+  const end = clip.end !== undefined ? Math.min(clip.end, duration || clip.end) : duration;
+  return Math.max(0, end - (clip.start || 0));
+};
+
+// Label added to clip file names; colons are not allowed in macOS file names
+export const getClipLabel = (clip: ClipSettings): string => {
+  const start = formatDuration(clip.start || 0).replace(/:/g, ".");
+  const end = clip.end !== undefined ? formatDuration(clip.end).replace(/:/g, ".") : "end";
+  return `${start}-${end}`;
+};
+
+export const getClipOutputTemplate = (clip: ClipSettings, outputPath: string, name = "%(title)s"): string =>
+  path.join(outputPath, `${name} [${getClipLabel(clip)}].%(ext)s`);
+
+export const buildClipArgs = (clip: ClipSettings): string[] => {
+  const args = ["--download-sections", `*${clip.start || 0}-${clip.end !== undefined ? clip.end : "inf"}`];
+  // Without this the cut snaps to the nearest keyframe, which can be seconds away
+  if (clip.exactCuts) args.push("--force-keyframes-at-cuts");
+  return args;
+};
+
+// Writes one file per chapter into a folder named after the video
+export const buildSplitChapterArgs = (outputPath: string): string[] => [
+  "--split-chapters",
+  "-o",
+  `chapter:${path.join(outputPath, "%(title)s", "%(section_number)02d - %(section_title)s.%(ext)s")}`,
+];
@@ -0,0 +1,240 @@
+export type VideoContainer = "mp4" | "mkv" | "webm";
+export type VideoEncoder = "x264" | "x265" | "av1" | "vp9";
+export type EncoderSpeed = "faster" | "fast" | "medium" | "slow" | "slower";
+
+// Download types are "<extension>_video_audio", "<extension>_video_only" or "<extension>_audio"
+export const DOWNLOAD_TYPES = [
+  { value: "mp4_video_audio", title: "MP4 (Video + Audio)", section: "Video" },
+  { value: "mkv_video_audio", title: "MKV (Video + Audio)", section: "Video" },
+  { value: "webm_video_audio", title: "WebM (Video + Audio)", section: "Video" },
+  { value: "mp4_video_only", title: "MP4 (Video Only)", section: "Video" },
+  { value: "mkv_video_only", title: "MKV (Video Only)", section: "Video" },
+  { value: "webm_video_only", title: "WebM (Video Only)", section: "Video" },
+  { value: "mp3_audio", title: "MP3 Audio", section: "Audio" },
+  { value: "m4a_audio", title: "M4A Audio (Original Quality)", section: "Audio" },
+  { value: "aac_audio", title: "AAC Audio", section: "Audio" },
+  { value: "opus_audio", title: "Opus Audio", section: "Audio" },
+  { value: "flac_audio", title: "FLAC Audio (Lossless)", section: "Audio" },
+  { value: "wav_audio", title: "WAV Audio (Uncompressed)", section: "Audio" },
+];
+
+export const isVideoType = (downloadType: string): boolean => /_video_(audio|only)$/.test(downloadType);
+
+export const isVideoOnlyType = (downloadType: string): boolean => downloadType.endsWith("_video_only");
+
+// File extension of the finished download, e.g. "mkv" or "flac"
+export const getOutputExtension = (downloadType: string): string => downloadType.split("_")[0];
+
+export const getVideoContainer = (downloadType: string): VideoContainer | undefined =>
+  isVideoType(downloadType) ? (getOutputExtension(downloadType) as VideoContainer) : undefined;
+
+// Audio outputs whose size is set by the bitrate picked in the form
+export const usesAudioBitrate = (downloadType: string): boolean =>
+  downloadType === "aac_audio" || downloadType === "opus_audio";
+
+export const AUDIO_BITRATES = ["96K", "128K", "160K", "192K", "256K"];
+export const DEFAULT_AUDIO_BITRATE = "160K";
+
+interface EncoderInfo {
+  title: string;
+  containers: VideoContainer[];
+  // CRF for the light, medium and high compression levels; the scales differ per encoder
+  crf: { light: string; medium: string; high: string };
+  // Offered as custom values, from visually lossless to lower quality
+  crfOptions: string[];
+  // Size compared to x264 at the same perceived quality, for estimates
+  efficiency: number;
+}
+
+export const VIDEO_ENCODERS: Record<VideoEncoder, EncoderInfo> = {
+  x264: {
+    title: "H.264 (x264, Most Compatible)",
+    containers: ["mp4", "mkv"],
+    crf: { light: "20", medium: "23", high: "28" },
+    crfOptions: ["18", "20", "23", "25", "26", "28", "30"],
+    efficiency: 1,
+  },
+  x265: {
+    title: "H.265 (x265, Smaller Files)",
+    containers: ["mp4", "mkv"],
+    crf: { light: "22", medium: "26", high: "30" },
+    crfOptions: ["20", "22", "24", "26", "28", "30", "32"],
+    efficiency: 0.7,
+  },
+  av1: {
+    title: "AV1 (SVT-AV1, Smallest Files)",
+    containers: ["mp4", "mkv", "webm"],
+    crf: { light: "28", medium: "35", high: "42" },
+    crfOptions: ["24", "28", "32", "35", "38", "42", "46"],
+    efficiency: 0.6,
+  },
+  vp9: {
+    title: "VP9 (libvpx)",
+    containers: ["mkv", "webm"],
+    crf: { light: "28", medium: "33", high: "38" },
+    crfOptions: ["24", "28", "31", "33", "36", "38", "42"],
+    efficiency: 0.75,
+  },
+};
+
+const CRF_LABELS = [
+  "Visually Lossless",
+  "Excellent Quality",
+  "High Quality - Default",
+  "Good Quality",
+  "Good Quality, Smaller",
+  "Medium Quality",
+  "Lower Quality",
+];
+
+export const getCrfOptions = (encoder: VideoEncoder) =>
+  VIDEO_ENCODERS[encoder].crfOptions.map((value, i) => ({ value, title: `${value} (${CRF_LABELS[i]})` }));
+
+export const ENCODER_SPEEDS: { value: EncoderSpeed; title: string }[] = [
+  { value: "faster", title: "Faster (Larger Files)" },
+  { value: "fast", title: "Fast" },
+  { value: "medium", title: "Medium (Default)" },
+  { value: "slow", title: "Slow" },
+  { value: "slower", title: "Slower (Smaller Files)" },
+];
+export const DEFAULT_ENCODER_SPEED: EncoderSpeed = "medium";
+
+// SVT-AV1 presets and libvpx cpu-used values with roughly the same trade-off as x264's presets
+const AV1_PRESETS: Record<EncoderSpeed, string> = { faster: "10", fast: "8", medium: "6", slow: "4", slower: "2" };
+const VP9_CPU_USED: Record<EncoderSpeed, string> = { faster: "5", fast: "4", medium: "2", slow: "1", slower: "0" };
+
+export const getEncodersForContainer = (container: VideoContainer): VideoEncoder[] =>
+  (Object.keys(VIDEO_ENCODERS) as VideoEncoder[]).filter((encoder) =>
+    VIDEO_ENCODERS[encoder].containers.includes(container),
+  );
+
+// The chosen encoder when the container can hold its output, otherwise the container's default
+export const getVideoEncoder = (downloadType: string, encoder?: VideoEncoder): VideoEncoder => {
+  const container = getVideoContainer(downloadType) || "mp4";
+  if (encoder && VIDEO_ENCODERS[encoder]?.containers.includes(container)) return encoder;
+  return container === "webm" ? "vp9" : "x264";
+};
+
+// ffmpeg arguments that encode the given video stream, e.g. "v:0" for the main picture
+export const buildVideoEncoderArgs = (
+  stream: string,
+  encoder: VideoEncoder,
+  crf: string,
+  speed: EncoderSpeed = DEFAULT_ENCODER_SPEED,
+  container: VideoContainer = "mp4",
+): string[] => {
+  switch (encoder) {
+    case "x265":
+      // Apple players only recognise H.265 in MP4 with the hvc1 tag
+      return [
+        `-c:${stream}`,
+        "libx265",
+        "-preset",
+        speed,
+        "-crf",
+        crf,
+        ...(container === "mp4" ? [`-tag:${stream}`, "hvc1"] : []),
+      ];
+    case "av1":
+      return [`-c:${stream}`, "libsvtav1", "-preset", AV1_PRESETS[speed], "-crf", crf];
+    case "vp9":
+      // Constant quality mode needs the bitrate set to 0
+      return [
+        `-c:${stream}`,
+        "libvpx-vp9",
+        "-crf",
+        crf,
+        "-b:v",
+        "0",
+        "-deadline",
+        "good",
+        "-cpu-used",
+        VP9_CPU_USED[speed],
+        "-row-mt",
+        "1",
+      ];
+    default:
+      return [`-c:${stream}`, "libx264", "-preset", speed, "-crf", crf];
+  }
+};
+
+// Audio is re-encoded along with the video; WebM only holds Opus or Vorbis
+export const buildAudioEncoderArgs = (container: VideoContainer = "mp4", bitrate = "128k"): string[] =>
+  container === "webm" ? ["-c:a", "libopus", "-b:a", bitrate] : ["-c:a", "aac", "-b:a", bitrate];
+
+// Sizes offered by the Target Size compression level, in MB
+export const TARGET_SIZES = [
+  { value: "8", title: "8 MB (Discord)" },
+  { value: "10", title: "10 MB" },
+  { value: "16", title: "16 MB (WhatsApp)" },
+  { value: "25", title: "25 MB (Email)" },
+  { value: "50", title: "50 MB" },
+  { value: "100", title: "100 MB" },
+  { value: "500", title: "500 MB" },
+];
+export const DEFAULT_TARGET_SIZE = "25";
+
+// SVT-AV1 has no two-pass mode in ffmpeg, so target sizes use the container's default encoder instead
+export const getTargetSizeEncoder = (encoder: VideoEncoder, container: VideoContainer): VideoEncoder =>
+  encoder !== "av1" ? encoder : container === "webm" ? "vp9" : "x264";
+
+// ffmpeg arguments for one pass of a two-pass encode at an average bitrate in kbps.
+// The first pass only writes statistics to the files starting with logPrefix; the second uses them.
+export const buildTwoPassEncoderArgs = (
+  stream: string,
+  encoder: VideoEncoder,
+  kbps: number,
+  pass: 1 | 2,
+  logPrefix: string,
+  speed: EncoderSpeed = DEFAULT_ENCODER_SPEED,
+  container: VideoContainer = "mp4",
+): string[] => {
+  const bitrate = [`-b:${stream}`, `${kbps}k`];
+  switch (getTargetSizeEncoder(encoder, container)) {
+    case "x265":
+      return [
+        `-c:${stream}`,
+        "libx265",
+        "-preset",
+        speed,
+        ...bitrate,
+        "-x265-params",
+        `pass=${pass}:stats=${logPrefix}.log`,
+        ...(container === "mp4" ? [`-tag:${stream}`, "hvc1"] : []),
+      ];
+    case "vp9":
+      return [
+        `-c:${stream}`,
+        "libvpx-vp9",
+        ...bitrate,
+        "-deadline",
+        "good",
+        "-cpu-used",
+        VP9_CPU_USED[speed],
+        "-row-mt",
+        "1",
+        "-pass",
+        String(pass),
+        "-passlogfile",
+        logPrefix,
+      ];
+    default:
+      return [
+        `-c:${stream}`,
+        "libx264",
+        "-preset",
+        speed,
+        ...bitrate,
+        "-pass",
+        String(pass),
+        "-passlogfile",
+        logPrefix,
+      ];
+  }
+};
+
+// yt-dlp can't embed cover art into these files
+const NO_THUMBNAIL_EXTENSIONS = ["webm", "aac", "wav"];
+
+export const supportsThumbnail = (downloadType: string): boolean =>
+  !NO_THUMBNAIL_EXTENSIONS.includes(getOutputExtension(downloadType));
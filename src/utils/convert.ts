@@ -0,0 +1,186 @@
+import fs from "fs";
+import path from "path";
+import { ClipSettings, getClipLabel } from "./clip";
+import {
+  DEFAULT_AUDIO_BITRATE,
+  DEFAULT_TARGET_SIZE,
+  EncoderSpeed,
+  VideoEncoder,
+  buildAudioEncoderArgs,
+  buildVideoEncoderArgs,
+  getOutputExtension,
+  getVideoContainer,
+  getVideoEncoder,
+  isVideoOnlyType,
+} from "./codecs";
+import { getCrfValue } from "./download";
+import { FfmpegRunOptions, describeFfmpegError, runFfmpeg } from "./ffmpeg";
+import { formatFileSize } from "./format";
+import { encodeToTargetSize } from "./target-size";
+
+// The download settings that make sense for a file that's already on disk
+export interface ConvertSettings {
+  downloadType: string;
+  compressionLevel: string;
+  compressionCrf: string;
+  targetSize?: string; // in MB, for the "target" compression level
+  videoEncoder?: VideoEncoder;
+  encoderSpeed?: EncoderSpeed;
+  mp3Quality: string;
+  audioBitrate?: string;
+  clip?: ClipSettings;
+}
+
+export interface ConvertResult {
+  input: string;
+  output: string;
+  inputSize: number;
+  outputSize: number;
+}
+
+// Files the file picker and Finder selection accept
+export const MEDIA_EXTENSIONS = [
+  ".mp4",
+  ".m4v",
+  ".mkv",
+  ".webm",
+  ".mov",
+  ".avi",
+  ".flv",
+  ".ts",
+  ".mp3",
+  ".m4a",
+  ".aac",
+  ".opus",
+  ".ogg",
+  ".flac",
+  ".wav",
+];
+
+export const isMediaFile = (file: string): boolean => MEDIA_EXTENSIONS.includes(path.extname(file).toLowerCase());
+
+// Audio codec arguments for each audio output type; M4A has no original stream to keep, so it's AAC at 256 kbps
+const buildAudioOutputArgs = (settings: ConvertSettings): string[] => {
+  const bitrate = settings.audioBitrate || DEFAULT_AUDIO_BITRATE;
+  switch (settings.downloadType) {
+    case "mp3_audio":
+      return settings.mp3Quality === "320K"
+        ? ["-c:a", "libmp3lame", "-b:a", "320k"]
+        : ["-c:a", "libmp3lame", "-q:a", settings.mp3Quality];
+    case "m4a_audio":
+      return ["-c:a", "aac", "-b:a", "256k"];
+    case "aac_audio":
+      return ["-c:a", "aac", "-b:a", bitrate];
+    case "opus_audio":
+      return ["-c:a", "libopus", "-b:a", bitrate];
+    case "flac_audio":
+      return ["-c:a", "flac"];
+    default:
+      return ["-c:a", "pcm_s16le"];
+  }
+};
+
+// Whether the video stream is re-encoded; exact cuts can't be made by copying it
+export const reencodesVideo = (settings: ConvertSettings): boolean =>
+  !!getVideoContainer(settings.downloadType) && (settings.compressionLevel !== "none" || !!settings.clip?.exactCuts);
+
+// Fitting a video to a size takes two passes, which encodeToTargetSize runs instead of a single ffmpeg call
+const fitsTargetSize = (settings: ConvertSettings): boolean =>
+  !!getVideoContainer(settings.downloadType) && settings.compressionLevel === "target";
+
+export const buildConvertArgs = (input: string, output: string, settings: ConvertSettings): string[] => {
+  const { downloadType, clip } = settings;
+  const container = getVideoContainer(downloadType);
+  const args = ["-y"];
+  // Seeking before the input is fast; when the video is copied it starts at the keyframe before the start
+  if (clip?.start) args.push("-ss", String(clip.start));
+  args.push("-i", input);
+  if (clip?.end !== undefined) args.push("-t", String(clip.end - (clip.start || 0)));
+
+  if (!container) {
+    args.push("-map", "0:a:0", "-vn", ...buildAudioOutputArgs(settings));
+  } else {
+    args.push("-map", "0:v:0");
+    if (reencodesVideo(settings)) {
+      const encoder = getVideoEncoder(downloadType, settings.videoEncoder);
+      // Exact cuts without compression use the medium level, which is close to the source
+      const level = settings.compressionLevel === "none" ? "medium" : settings.compressionLevel;
+      const crf = getCrfValue(level, settings.compressionCrf, encoder);
+      args.push(...buildVideoEncoderArgs("v:0", encoder, crf, settings.encoderSpeed, container));
+    } else {
+      args.push("-c:v", "copy");
+    }
+    if (isVideoOnlyType(downloadType)) {
+      args.push("-an");
+    } else {
+      // Audio is kept as it is unless the video is re-encoded or WebM needs Opus
+      args.push("-map", "0:a?");
+      args.push(
+        ...(reencodesVideo(settings) || container === "webm" ? buildAudioEncoderArgs(container) : ["-c:a", "copy"]),
+      );
+    }
+    if (container === "mp4") args.push("-movflags", "+faststart");
+  }
+  args.push(output);
+  return args;
+};
+
+// "clip [0.10-1.00].mp4" next to the source, numbered when the name is taken (including by the source itself)
+export const getConvertOutputPath = (input: string, settings: ConvertSettings): string => {
+  const { dir, name } = path.parse(input);
+  const base = settings.clip ? `${name} [${getClipLabel(settings.clip)}]` : name;
+  const extension = getOutputExtension(settings.downloadType);
+  let output = path.join(dir, `${base}.${extension}`);
+  for (let counter = 2; fs.existsSync(output); counter++) {
+    output = path.join(dir, `${base} (${counter}).${extension}`);
+  }
+  return output;
+};
+
+// Converts one file next to the original, which is left untouched
+export const convertFile = async (
+  ffmpegPath: string,
+  input: string,
+  settings: ConvertSettings,
+  options: Omit<FfmpegRunOptions, "phase" | "duration">,
+): Promise<ConvertResult> => {
+  const output = getConvertOutputPath(input, settings);
+  const { clip } = settings;
+  // ffmpeg reports the whole file's length, which is only right without a clip end
+  const duration = clip?.end !== undefined ? clip.end - (clip.start || 0) : undefined;
+
+  try {
+    const container = getVideoContainer(settings.downloadType);
+    if (container && fitsTargetSize(settings)) {
+      const videoOnly = isVideoOnlyType(settings.downloadType);
+      const targetSettings = {
+        targetSize: settings.targetSize || DEFAULT_TARGET_SIZE,
+        encoder: getVideoEncoder(settings.downloadType, settings.videoEncoder),
+        speed: settings.encoderSpeed,
+        container,
+        videoOnly,
+        clip,
+        mapArgs: videoOnly ? ["-map", "0:v:0", "-an"] : ["-map", "0:v:0", "-map", "0:a?"],
+      };
+      await encodeToTargetSize(ffmpegPath, input, output, targetSettings, { ...options, duration });
+    } else {
+      await runFfmpeg(ffmpegPath, buildConvertArgs(input, output, settings), {
+        ...options,
+        duration,
+        phase: reencodesVideo(settings) ? "compress" : "convert",
+      });
+    }
+  } catch (error) {
+    await fs.promises.rm(output, { force: true });
+    throw new Error(`Converting ${path.basename(input)} failed: ${describeFfmpegError(error)}`);
+  }
+
+  const [inputStat, outputStat] = await Promise.all([fs.promises.stat(input), fs.promises.stat(output)]);
+  return { input, output, inputSize: inputStat.size, outputSize: outputStat.size };
+};
+
+// e.g. "412.3 MB → 96.1 MB (−77%)"
+export const describeSizeChange = ({ inputSize, outputSize }: ConvertResult): string => {
+  const change = inputSize ? Math.round(((outputSize - inputSize) / inputSize) * 100) : 0;
+  return `${formatFileSize(inputSize)} → ${formatFileSize(outputSize)} (${change > 0 ? "+" : change < 0 ? "−" : "±"}${Math.abs(change)}%)`;
+};
@@ -0,0 +1,29 @@
+import { getPreferenceValues } from "@raycast/api";
+
+interface CookiePreferences {
+  cookiesFile?: string;
+  cookiesBrowser?: string;
+  cookiesBrowserProfile?: string;
+}
+
+// yt-dlp arguments that sign requests in with the user's YouTube session.
+// They are added when yt-dlp runs rather than stored with a job, so changed preferences apply to queued downloads.
+export const buildCookieArgs = (): string[] => {
+  const { cookiesFile, cookiesBrowser, cookiesBrowserProfile } = getPreferenceValues<CookiePreferences>();
+  // A cookies file is more specific than a browser, so it wins when both are set
+  if (cookiesFile?.trim()) return ["--cookies", cookiesFile.trim()];
+  if (cookiesBrowser && cookiesBrowser !== "none") {
+    const profile = cookiesBrowserProfile?.trim();
+    return ["--cookies-from-browser", profile ? `${cookiesBrowser}:${profile}` : cookiesBrowser];
+  }
+  return [];
+};
+
+export const hasCookies = (): boolean => buildCookieArgs().length > 0;
+
+// yt-dlp repeats malformed cookie file lines in its warnings; those and any cookie headers stay out of error details
+export const redactCookies = (text: string): string =>
+  text
+    .replace(/(skipping cookie file entry due to [^:\n]*:).*/g, "$1 [redacted]")
+    .replace(/^.*\t(TRUE|FALSE)\t.*\t(TRUE|FALSE)\t\d+\t.*$/gm, "[cookie redacted]")
+    .replace(/(Cookie:\s*).*/gi, "$1[redacted]");
@@ -0,0 +1,212 @@
+import path from "path";
+import { ClipSettings, buildClipArgs, buildSplitChapterArgs, getClipOutputTemplate } from "./clip";
+import {
+  EncoderSpeed,
+  VIDEO_ENCODERS,
+  VideoContainer,
+  VideoEncoder,
+  getOutputExtension,
+  getVideoContainer,
+  getVideoEncoder,
+  DEFAULT_AUDIO_BITRATE,
+  DEFAULT_TARGET_SIZE,
+  isVideoOnlyType,
+  isVideoType,
+  usesAudioBitrate,
+} from "./codecs";
+import { DEFAULT_FILENAME_TEMPLATE, FilenameSettings, buildFilenameArgs } from "./filename";
+import { resolvePlaylistUrl } from "./playlist";
+import { PostProcessSettings, buildPostProcessArgs } from "./postprocess";
+import { buildProgressArgs } from "./progress";
+import { SubtitleSettings, buildSubtitleArgs } from "./subtitles";
+
+export interface DownloadSettings {
+  downloadType: string;
+  videoQuality: string;
+  mp3Quality: string;
+  compressionLevel: string;
+  compressionCrf: string;
+  targetSize?: string; // in MB, for the "target" compression level
+  // Encoder used when compressing; x264 (VP9 for WebM) when omitted or when the container can't hold it
+  videoEncoder?: VideoEncoder;
+  encoderSpeed?: EncoderSpeed;
+  audioBitrate?: string; // for AAC and Opus, e.g. "160K"
+  outputPath: string;
+  // Exact -f selector picked in the advanced format picker, replaces the quality-based selector
+  format?: string;
+  // Set when the URL should be downloaded as a playlist
+  playlist?: {
+    title: string;
+    items?: string; // --playlist-items syntax, every entry when omitted
+  };
+  subtitles?: SubtitleSettings;
+  clip?: ClipSettings;
+  splitChapters?: boolean;
+  filename?: FilenameSettings;
+  postProcessing?: PostProcessSettings;
+}
+
+export const getCrfValue = (
+  compressionLevel: string,
+  compressionCrf: string,
+  encoder: VideoEncoder = "x264",
+): string => {
+  const { crf } = VIDEO_ENCODERS[encoder];
+  switch (compressionLevel) {
+    case "light":
+      return crf.light;
+    case "medium":
+      return crf.medium;
+    case "high":
+      return crf.high;
+    case "custom":
+      return compressionCrf;
+    default:
+      return crf.medium;
+  }
+};
+
+const downloadTypeLabels: Record<string, string> = {
+  mp4_video_audio: "MP4",
+  mkv_video_audio: "MKV",
+  webm_video_audio: "WebM",
+  mp4_video_only: "MP4 (Video Only)",
+  mkv_video_only: "MKV (Video Only)",
+  webm_video_only: "WebM (Video Only)",
+  mp3_audio: "MP3",
+  m4a_audio: "M4A",
+  aac_audio: "AAC",
+  opus_audio: "Opus",
+  flac_audio: "FLAC",
+  wav_audio: "WAV",
+};
+
+// Short summary of the settings, e.g. "MP4 · 1080p · CRF 23" or "MKV · Best · H.265 CRF 26"
+export const describeSettings = (settings: DownloadSettings): string => {
+  const parts = [downloadTypeLabels[settings.downloadType] || settings.downloadType];
+  if (isVideoType(settings.downloadType)) {
+    parts.push(
+      settings.format ? `Format ${settings.format}` : settings.videoQuality === "best" ? "Best" : settings.videoQuality,
+    );
+    if (settings.compressionLevel === "target") {
+      parts.push(`Under ${settings.targetSize || DEFAULT_TARGET_SIZE} MB`);
+    } else if (settings.compressionLevel !== "none") {
+      const encoder = getVideoEncoder(settings.downloadType, settings.videoEncoder);
+      const crf = `CRF ${getCrfValue(settings.compressionLevel, settings.compressionCrf, encoder)}`;
+      parts.push(encoder === "x264" ? crf : `${VIDEO_ENCODERS[encoder].title.split(" ")[0]} ${crf}`);
+    }
+  } else if (settings.downloadType === "mp3_audio") {
+    if (settings.format) parts.push(`Format ${settings.format}`);
+    parts.push(settings.mp3Quality === "320K" ? "320 kbps" : `VBR ${settings.mp3Quality}`);
+  } else if (usesAudioBitrate(settings.downloadType)) {
+    if (settings.format) parts.push(`Format ${settings.format}`);
+    parts.push(`${parseInt(settings.audioBitrate || DEFAULT_AUDIO_BITRATE)} kbps`);
+  }
+  return parts.join(" · ");
+};
+
+// Streams that fit each container without re-encoding; MKV holds anything
+const CONTAINER_STREAMS: Record<VideoContainer, { video?: string; audio?: string }> = {
+  mp4: { video: "mp4", audio: "m4a" },
+  mkv: {},
+  webm: { video: "webm", audio: "webm" },
+};
+
+// The -f selector for video downloads, with fallbacks for formats YouTube doesn't offer.
+// Audio downloads return an empty string and leave format selection to yt-dlp.
+export const getFormatSelector = (downloadType: string, videoQuality: string): string => {
+  const container = getVideoContainer(downloadType);
+  if (!container) return "";
+  const height = videoQuality !== "best" ? `[height<=${videoQuality.replace("p", "")}]` : "";
+  const { video, audio } = CONTAINER_STREAMS[container];
+  const videoExt = video ? `[ext=${video}]` : "";
+  const audioExt = audio ? `[ext=${audio}]` : "";
+
+  // More flexible format selection with multiple fallbacks
+  let terms = isVideoOnlyType(downloadType)
+    ? [`bestvideo${height}${videoExt}`, `bestvideo${height}`, `best${height}${videoExt}`, `best${height}`]
+    : [
+        `bestvideo${height}${videoExt}+bestaudio${audioExt}`,
+        `bestvideo${height}${videoExt}+bestaudio`,
+        `bestvideo${height}+bestaudio${audioExt}`,
+        `bestvideo${height}+bestaudio`,
+        `best${height}${videoExt}`,
+        `best${height}`,
+        `best${videoExt}`,
+        `best`,
+      ];
+  // Other streams can't be put into WebM without re-encoding, so there is no fallback to them
+  if (container === "webm") {
+    terms = terms.filter((term) => term.split("+").every((part) => part.includes("[ext=webm]")));
+  }
+  return [...new Set(terms)].join("/");
+};
+
+// YouTube player clients asked for formats; failed downloads move on to the next set, see remediation.ts
+export const PLAYER_CLIENTS = ["android,web", "tv,web_safari", "ios,mweb", "web_embedded"];
+
+// Builds the yt-dlp arguments for a download with the given settings
+export const buildDownloadArgs = (
+  url: string,
+  settings: DownloadSettings,
+  ffmpegPath: string,
+): { args: string[]; finalExtension: string } => {
+  // Compression runs as a separate ffmpeg step once the download is done, see compressVideo
+  const { downloadType, videoQuality, mp3Quality, outputPath, playlist } = settings;
+  const args = [];
+  const name = settings.filename?.template || DEFAULT_FILENAME_TEMPLATE;
+  // Playlists go into their own folder, ordered by their position in the playlist
+  const outputTemplate = playlist
+    ? path.join(outputPath, "%(playlist_title)s", `%(playlist_index)s - ${name}.%(ext)s`)
+    : settings.clip
+      ? getClipOutputTemplate(settings.clip, outputPath, name)
+      : path.join(outputPath, `${name}.%(ext)s`);
+
+  const formatString = settings.format || getFormatSelector(downloadType, videoQuality);
+  const finalExtension = getOutputExtension(downloadType);
+  if (isVideoType(downloadType)) {
+    args.push("-f", formatString);
+    // Streams are copied into the chosen container, so nothing is re-encoded unless compression is on
+    args.push("--merge-output-format", finalExtension, "--remux-video", finalExtension);
+  } else {
+    if (settings.format) args.push("-f", settings.format);
+    args.push("-x", "--audio-format", finalExtension);
+    if (downloadType === "mp3_audio") {
+      args.push("--audio-quality", mp3Quality);
+    } else if (usesAudioBitrate(downloadType)) {
+      args.push("--audio-quality", settings.audioBitrate || DEFAULT_AUDIO_BITRATE);
+    }
+  }
+  if (ffmpegPath && ffmpegPath !== "ffmpeg") {
+    args.push("--ffmpeg-location", ffmpegPath);
+  }
+
+  if (settings.subtitles && settings.subtitles.languages.length > 0) {
+    args.push(...buildSubtitleArgs(settings.subtitles, isVideoType(downloadType)));
+  }
+
+  args.push(...buildFilenameArgs(settings.filename));
+  args.push(...buildPostProcessArgs(settings.postProcessing, downloadType));
+
+  if (settings.clip) {
+    args.push(...buildClipArgs(settings.clip));
+  } else if (settings.splitChapters) {
+    args.push(...buildSplitChapterArgs(outputPath));
+  }
+
+  if (playlist) {
+    args.push(resolvePlaylistUrl(url), "-o", outputTemplate, "--yes-playlist", "--progress");
+    if (playlist.items) {
+      args.push("--playlist-items", playlist.items);
+    }
+  } else {
+    args.push(url, "-o", outputTemplate, "--no-playlist", "--progress");
+  }
+
+  args.push(...buildProgressArgs());
+
+  // Use different clients to avoid nsig issues
+  args.push("--extractor-args", `youtube:player_client=${PLAYER_CLIENTS[0]}`);
+
+  return { args, finalExtension };
+};
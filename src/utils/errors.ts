@@ -0,0 +1,189 @@
+import { redactCookies } from "./cookies";
+import { redactProxy } from "./network";
+
+export type DownloadErrorKind =
+  | "cancelled"
+  | "missing-binary"
+  | "timeout"
+  | "disk-full"
+  | "permission"
+  | "encoder-missing"
+  | "ffmpeg"
+  | "unsupported-url"
+  | "cookies"
+  | "private"
+  | "members-only"
+  | "age-restricted"
+  | "bot-check"
+  | "geo-blocked"
+  | "live-upcoming"
+  | "live-ended"
+  | "unavailable"
+  | "nsig"
+  | "format-missing"
+  | "forbidden"
+  | "throttled"
+  | "proxy"
+  | "network"
+  | "unknown";
+
+// Checked in order, so the first match wins when one line mentions several problems
+const ERROR_PATTERNS: [DownloadErrorKind, RegExp][] = [
+  ["disk-full", /No space left on device|Errno 28|ENOSPC/],
+  ["permission", /Permission denied|Errno 13|EACCES|Read-only file system/],
+  ["encoder-missing", /Unknown encoder|Encoder (\S+ )?not found/],
+  ["ffmpeg", /ffmpeg not found|ffmpeg exited with code|Conversion failed|Compressing the video failed|Burning in/],
+  ["unsupported-url", /Unsupported URL/],
+  [
+    "cookies",
+    /could not find \S+ cookies database|Failed to decrypt with DPAPI|does not look like a Netscape format cookies file|Unsupported browser specified for cookies|failed to load cookies/i,
+  ],
+  ["private", /Private video|This video is private/],
+  ["members-only", /members-only|Join this channel to get access|available to this channel's members/i],
+  ["age-restricted", /Sign in to confirm your age|age-restricted|inappropriate for some users/i],
+  ["bot-check", /Sign in to confirm you.re not a bot/],
+  ["geo-blocked", /not available in your country|not made this video available in your country|geo.?restrict/i],
+  ["live-upcoming", /This live event will begin|Premieres in|Premiere will begin/],
+  ["live-ended", /This live event has ended/],
+  ["unavailable", /Video unavailable|This video has been removed|This video is no longer available/],
+  ["nsig", /nsig extraction failed|Signature extraction failed|n challenge solving failed/i],
+  ["format-missing", /Requested format is not available/],
+  ["forbidden", /HTTP Error 403/],
+  ["throttled", /HTTP Error 429|Too Many Requests/],
+  ["proxy", /ProxyError|Unable to connect to proxy|Cannot connect to proxy|Tunnel connection failed/i],
+  [
+    "network",
+    /HTTP Error 5\d\d|fragment \d+ not found|Got error:.*fragment|giving up after \d+ fragment|Connection reset|Connection refused|Read timed out|timed out|IncompleteRead|Temporary failure in name resolution|Unable to download (video data|webpage)/i,
+  ],
+];
+
+// Failures that are only symptoms of another problem, which yt-dlp may mention in a warning instead:
+// a failed nsig challenge shows up as a missing format, a full disk as a failed fragment
+const ROOT_CAUSES: Partial<Record<DownloadErrorKind, DownloadErrorKind[]>> = {
+  "format-missing": ["nsig"],
+  network: ["disk-full"],
+};
+
+const matchErrorPattern = (text: string, kinds?: DownloadErrorKind[]): DownloadErrorKind | undefined =>
+  ERROR_PATTERNS.find(([kind, pattern]) => (!kinds || kinds.includes(kind)) && pattern.test(text))?.[0];
+
+const ERROR_MESSAGES: Partial<Record<DownloadErrorKind, string>> = {
+  "disk-full": "Not enough disk space to save the download.",
+  permission: "The output folder can't be written to. Pick another folder.",
+  "encoder-missing": "Your ffmpeg doesn't include the selected video encoder.",
+  "unsupported-url": "Unsupported URL.",
+  cookies: "The cookies couldn't be read. Check the cookies file or browser in the extension preferences.",
+  private: "This video is private. Only accounts it was shared with can download it, using their cookies.",
+  "members-only": "This video is for channel members only. Set your YouTube cookies in the extension preferences.",
+  "age-restricted": "This video is age-restricted. Set your YouTube cookies in the extension preferences.",
+  "bot-check": "YouTube wants to confirm you're not a bot. Set your YouTube cookies in the extension preferences.",
+  "geo-blocked": "This video isn't available in your country.",
+  "live-upcoming": "This live stream or premiere hasn't started yet.",
+  "live-ended": "This live stream has ended and may not be available for download.",
+  unavailable: "Video unavailable.",
+  nsig: "yt-dlp couldn't solve YouTube's playback challenge. Updating yt-dlp from Check Setup usually fixes this.",
+  "format-missing": "Video format not available. Try a different quality setting.",
+  forbidden: "Access denied by YouTube (HTTP 403).",
+  throttled: "YouTube is limiting downloads (HTTP 429). Try again later.",
+  proxy: "The proxy couldn't be reached. Check the proxy URL in the extension preferences.",
+  network: "The connection failed during the download.",
+};
+
+// Failures that usually go away on their own, so the download is worth retrying after a pause
+const TRANSIENT_KINDS: DownloadErrorKind[] = ["timeout", "forbidden", "throttled", "network"];
+
+// Only a signed-in YouTube session gets past these
+const SIGN_IN_KINDS: DownloadErrorKind[] = ["private", "members-only", "age-restricted", "bot-check"];
+
+interface ProcessError {
+  isCanceled?: boolean;
+  isTerminated?: boolean;
+  code?: string;
+  command?: string;
+  isTimeout?: boolean;
+  durationMs?: number;
+  stderr?: string;
+  stdout?: string;
+  shortMessage?: string;
+  message?: string;
+}
+
+const isCancelled = (err: ProcessError) => Boolean(err.isCanceled || (err.isTerminated && !err.isTimeout));
+
+// Works out what went wrong from an execa failure (or a post-processing error) and the collected output
+export const classifyDownloadError = (error: unknown, fullOutput: string): DownloadErrorKind => {
+  const err = error as ProcessError;
+  if (isCancelled(err)) return "cancelled";
+  if (err.code === "ENOENT") return "missing-binary";
+  if (err.isTimeout) return "timeout";
+  // Errors thrown by our own post-processing carry their reason in the message; yt-dlp's output is unrelated
+  const text = !err.command && err.message ? err.message : fullOutput || err.stderr || err.stdout || "";
+  // Warnings name problems yt-dlp worked around (a failed nsig challenge often just hides a few formats),
+  // so the ERROR lines decide, and the whole output only when they don't say anything recognisable
+  const errorLines = text
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith("ERROR:"))
+    .join("\n");
+  const kind = (errorLines && matchErrorPattern(errorLines)) || matchErrorPattern(text);
+  if (!kind) return "unknown";
+  const causes = ROOT_CAUSES[kind];
+  return (causes && matchErrorPattern(text, causes)) || kind;
+};
+
+export interface DownloadErrorDescription {
+  kind: DownloadErrorKind;
+  cancelled: boolean;
+  message: string;
+  details: string;
+}
+
+// Turns an execa failure and the collected yt-dlp output into a user-facing message
+export const describeDownloadError = (
+  error: unknown,
+  fullOutput: string,
+  ytDlpPath: string,
+): DownloadErrorDescription => {
+  const err = error as ProcessError;
+  const kind = classifyDownloadError(error, fullOutput);
+  const cancelled = kind === "cancelled";
+  let userMessage = "Failed to download video.";
+  let errorDetailsForClipboard = `Error: ${err.message || "Unknown error"}`;
+  if (fullOutput && !cancelled) {
+    // Don't include full output for cancellation message
+    errorDetailsForClipboard += `\n\nOutput:\n${fullOutput}`;
+  }
+
+  if (cancelled) {
+    userMessage = "Download was cancelled by the user.";
+    errorDetailsForClipboard = userMessage;
+  } else if (kind === "missing-binary") {
+    userMessage = `Failed to execute ${err.command?.split(" ")[0]}. Path: ${ytDlpPath}`;
+    errorDetailsForClipboard = `ENOENT: Command not found. Tried to run '${err.command?.split(" ")[0]}' at path '${ytDlpPath}'. Ensure it is correctly installed and accessible.`;
+  } else if (kind === "timeout") {
+    userMessage = "Download timed out.";
+    errorDetailsForClipboard = `Timeout: The command '${err.command}' timed out after ${err.durationMs}ms.`;
+  } else if (ERROR_MESSAGES[kind]) {
+    userMessage = ERROR_MESSAGES[kind] as string;
+  } else if (!err.command && err.message) {
+    // Not a process failure, e.g. a post-processing step that threw its own error
+    userMessage = err.message;
+  } else if (fullOutput || err.stderr || err.stdout) {
+    const out = fullOutput || err.stderr || err.stdout;
+    const errorLine = out?.split("\n").find((l: string) => l.toLowerCase().startsWith("error:"));
+    userMessage = errorLine || "An error occurred. Check console.";
+  } else if (err.shortMessage) {
+    userMessage = err.shortMessage;
+  }
+
+  return {
+    kind,
+    cancelled,
+    message: redactProxy(redactCookies(userMessage)).substring(0, 250),
+    details: redactProxy(redactCookies(errorDetailsForClipboard)),
+  };
+};
+
+export const isTransientDownloadError = (error: unknown, fullOutput: string): boolean =>
+  TRANSIENT_KINDS.includes(classifyDownloadError(error, fullOutput));
+
+export const needsSignIn = (kind?: DownloadErrorKind): boolean => !!kind && SIGN_IN_KINDS.includes(kind);
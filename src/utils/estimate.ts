@@ -0,0 +1,242 @@
+import {
+  DEFAULT_AUDIO_BITRATE,
+  DEFAULT_TARGET_SIZE,
+  VIDEO_ENCODERS,
+  getVideoEncoder,
+  isVideoType,
+  usesAudioBitrate,
+} from "./codecs";
+import { DownloadSettings, getFormatSelector } from "./download";
+import { getFormatSize, hasAudio, hasVideo } from "./formats";
+import { VideoFormat, VideoInfo } from "./video-info";
+
+export type EstimateSettings = Pick<
+  DownloadSettings,
+  | "downloadType"
+  | "videoQuality"
+  | "mp3Quality"
+  | "compressionLevel"
+  | "compressionCrf"
+  | "targetSize"
+  | "videoEncoder"
+  | "audioBitrate"
+  | "format"
+>;
+
+export interface SizeEstimate {
+  megabytes: number;
+  // True only when yt-dlp reported exact sizes for every selected format and nothing is re-encoded
+  exact: boolean;
+  // True when the size is the target size limit, which the result never exceeds
+  target?: boolean;
+}
+
+// yt-dlp's default selector when extracting audio
+const AUDIO_SELECTOR = "bestaudio/best";
+
+// Share of the original video size left after re-encoding
+const getCompressionFactor = (settings: EstimateSettings): number => {
+  const { compressionLevel, compressionCrf } = settings;
+  const encoder = VIDEO_ENCODERS[getVideoEncoder(settings.downloadType, settings.videoEncoder)];
+  switch (compressionLevel) {
+    case "light":
+      return 0.8 * encoder.efficiency; // 20% reduction with x264
+    case "medium":
+      return 0.6 * encoder.efficiency; // 40% reduction with x264
+    case "high":
+      return 0.4 * encoder.efficiency; // 60% reduction with x264
+    case "custom": {
+      // Map the CRF onto x264's scale, where medium is 23 and high is 28
+      const { medium, high } = encoder.crf;
+      const crf = 23 + ((parseInt(compressionCrf) - parseInt(medium)) * 5) / (parseInt(high) - parseInt(medium));
+      // CRF to compression factor approximation
+      return Math.max(0.3, 1 - (crf - 18) * 0.04) * encoder.efficiency;
+    }
+    default:
+      return 1;
+  }
+};
+
+const getMp3Bitrate = (mp3Quality: string): number => {
+  switch (mp3Quality) {
+    case "0":
+      return 245;
+    case "2":
+      return 190;
+    case "5":
+      return 130;
+    case "320K":
+      return 320;
+    default:
+      return 128;
+  }
+};
+
+// Typical bitrates per quality, for when the format list has nothing usable
+const estimateFromBitrates = (settings: EstimateSettings, duration: number): number => {
+  const { downloadType, videoQuality, compressionLevel, mp3Quality } = settings;
+  let estimatedMB = 0;
+
+  if (isVideoType(downloadType)) {
+    // Video bitrate estimation based on quality
+    let videoBitrate = 0; // kbps
+    if (videoQuality === "best" || videoQuality === "2160p") {
+      videoBitrate = 8000; // 4K typically ~8Mbps
+    } else if (videoQuality === "1440p") {
+      videoBitrate = 4000; // 2K typically ~4Mbps
+    } else if (videoQuality === "1080p") {
+      videoBitrate = 2000; // 1080p typically ~2Mbps
+    } else if (videoQuality === "720p") {
+      videoBitrate = 1000; // 720p typically ~1Mbps
+    } else if (videoQuality === "480p") {
+      videoBitrate = 500; // 480p typically ~500kbps
+    }
+
+    // Apply compression factor
+    videoBitrate *= getCompressionFactor(settings);
+    estimatedMB = (videoBitrate * duration) / (8 * 1024); // Convert kbps to MB
+
+    // Add audio size for video+audio
+    if (downloadType.endsWith("_video_audio")) {
+      const audioBitrate = compressionLevel !== "none" ? 128 : 256; // kbps
+      estimatedMB += (audioBitrate * duration) / (8 * 1024);
+    }
+  } else if (downloadType === "mp3_audio") {
+    estimatedMB = (getMp3Bitrate(mp3Quality) * duration) / (8 * 1024);
+  } else if (downloadType === "m4a_audio") {
+    // M4A typically ~256kbps
+    estimatedMB = (256 * duration) / (8 * 1024);
+  } else if (usesAudioBitrate(downloadType)) {
+    estimatedMB = (parseInt(settings.audioBitrate || DEFAULT_AUDIO_BITRATE) * duration) / (8 * 1024);
+  } else if (downloadType === "flac_audio") {
+    // FLAC typically ~900kbps
+    estimatedMB = (900 * duration) / (8 * 1024);
+  } else if (downloadType === "wav_audio") {
+    // 48 kHz 16-bit stereo PCM
+    estimatedMB = (1536 * duration) / (8 * 1024);
+  }
+  return estimatedMB;
+};
+
+// Builds a predicate for one "[key op value]" filter of a format selector
+const parseFilter = (expression: string): ((format: VideoFormat) => boolean) => {
+  const match = expression.match(/^(\w+)\s*(<=|>=|!=|<|>|=)\s*(.+)$/);
+  if (!match) return () => true;
+  const [, key, operator, rawValue] = match;
+  const numeric = Number(rawValue);
+
+  return (format) => {
+    const value = (format as unknown as Record<string, unknown>)[key];
+    if (value === undefined || value === null) return false;
+    if (!isNaN(numeric) && typeof value === "number") {
+      switch (operator) {
+        case "<=":
+          return value <= numeric;
+        case ">=":
+          return value >= numeric;
+        case "<":
+          return value < numeric;
+        case ">":
+          return value > numeric;
+        case "!=":
+          return value !== numeric;
+        default:
+          return value === numeric;
+      }
+    }
+    return operator === "!=" ? String(value) !== rawValue : String(value) === rawValue;
+  };
+};
+
+// Resolves one selector term such as "bestvideo[height<=720][ext=mp4]" against the format list
+const selectFormat = (term: string, formats: VideoFormat[]): VideoFormat | undefined => {
+  const match = term.match(/^(bestvideo|bestaudio|best|worstvideo|worstaudio|worst|bv|ba|b|wv|wa|w)((?:\[[^\]]+\])*)$/);
+  if (!match) return formats.find((format) => format.format_id === term);
+
+  const [, kind, filterText] = match;
+  const filters = [...filterText.matchAll(/\[([^\]]+)\]/g)].map((m) => parseFilter(m[1]));
+  const candidates = formats.filter((format) => {
+    if (/video|^bv|^wv/.test(kind)) return hasVideo(format) && !hasAudio(format);
+    if (/audio|^ba|^wa/.test(kind)) return hasAudio(format) && !hasVideo(format);
+    return hasVideo(format) && hasAudio(format);
+  });
+  const matching = candidates.filter((format) => filters.every((filter) => filter(format)));
+  // yt-dlp lists formats from worst to best
+  return kind.startsWith("w") ? matching[0] : matching[matching.length - 1];
+};
+
+// Returns the formats yt-dlp would pick for a selector, using the first alternative that fully resolves
+export const resolveFormatSelector = (selector: string, formats: VideoFormat[]): VideoFormat[] | null => {
+  for (const alternative of selector.split("/")) {
+    const selected = alternative.split("+").map((term) => selectFormat(term.trim(), formats));
+    if (selected.every(Boolean)) return selected as VideoFormat[];
+  }
+  return null;
+};
+
+// Sums the sizes of the formats that would be downloaded, then adjusts for re-encoding and clipping
+const estimateFromFormats = (info: VideoInfo, settings: EstimateSettings, duration: number): SizeEstimate | null => {
+  const { downloadType, compressionLevel } = settings;
+  // Converted audio only depends on its bitrate (or, for FLAC and WAV, the length)
+  if (!info.formats?.length || (!isVideoType(downloadType) && downloadType !== "m4a_audio")) return null;
+
+  const selected = resolveFormatSelector(
+    settings.format || getFormatSelector(downloadType, settings.videoQuality) || AUDIO_SELECTOR,
+    info.formats,
+  );
+  if (!selected) return null;
+  const sizes = selected.map((format) => getFormatSize(format, info.duration));
+  if (sizes.some((size) => !size)) return null;
+
+  let exact = sizes.every((size) => size?.exact);
+  let videoBytes = 0;
+  let audioBytes = 0;
+  selected.forEach((format, i) => {
+    if (hasVideo(format)) videoBytes += sizes[i]?.bytes || 0;
+    else audioBytes += sizes[i]?.bytes || 0;
+  });
+
+  if (isVideoType(downloadType) && compressionLevel !== "none") {
+    // Re-encoding shrinks the video by roughly the CRF factor and the audio to 128 kbps AAC or Opus
+    videoBytes *= getCompressionFactor(settings);
+    if (audioBytes > 0 && info.duration) audioBytes = (128 * 1000 * info.duration) / 8;
+    exact = false;
+  } else if (downloadType === "m4a_audio" && selected[0].ext !== "m4a") {
+    exact = false; // Converted to AAC, so the size changes
+  }
+
+  let bytes = videoBytes + audioBytes;
+  if (info.duration && duration < info.duration) {
+    bytes *= duration / info.duration;
+    exact = false;
+  }
+  return { megabytes: bytes / (1024 * 1024), exact };
+};
+
+// Estimates the download size; duration is the length actually downloaded (clip or playlist total)
+export const estimateDownloadSize = (
+  info: VideoInfo | null,
+  settings: EstimateSettings,
+  duration: number,
+): SizeEstimate => {
+  if (isVideoType(settings.downloadType) && settings.compressionLevel === "target") {
+    // Files already under the limit are kept as they are, so the size is the smaller of the two
+    const original = estimateDownloadSize(info, { ...settings, compressionLevel: "none" }, duration);
+    const limit = parseFloat(settings.targetSize || DEFAULT_TARGET_SIZE);
+    return { megabytes: Math.min(original.megabytes, limit), exact: false, target: true };
+  }
+  return (
+    (info && estimateFromFormats(info, settings, duration)) || {
+      megabytes: estimateFromBitrates(settings, duration),
+      exact: false,
+    }
+  );
+};
+
+export const formatEstimate = ({ megabytes, exact, target }: SizeEstimate): string => {
+  const prefix = target ? "≤ " : exact ? "" : "~";
+  const label = target ? "target" : exact ? "exact" : "approx";
+  if (megabytes < 1) return `${prefix}${Math.round(megabytes * 1024)} KB (${label})`;
+  if (megabytes < 1024) return `${prefix}${Math.round(megabytes)} MB (${label})`;
+  return `${prefix}${(megabytes / 1024).toFixed(1)} GB (${label})`;
+};
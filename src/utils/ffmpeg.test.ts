@@ -0,0 +1,55 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { classifyDownloadError } from "./errors";
+import { compressVideo, describeFfmpegError } from "./ffmpeg";
+
+// What ffmpeg 6+ prints when it lacks the encoder, trimmed to the lines around the failure
+const ENCODER_MISSING = `Input #0, mov,mp4,m4a,3gp,3g2,mj2, from 'Error Codes Explained.mp4':
+  Duration: 00:03:32.07, start: 0.000000, bitrate: 1203 kb/s
+  Stream #0:0[0x1](und): Video: h264 (High) (avc1 / 0x31637661), yuv420p, 1920x1080, 1071 kb/s, 30 fps
+Stream mapping:
+  Stream #0:0 -> #0:0 (h264 (native) -> av1 (libsvtav1))
+[vost#0:0 @ 0x600000c3c000] Unknown encoder 'libsvtav1'
+[vost#0:0 @ 0x600000c3c000] Error selecting an encoder
+Error opening output file Error Codes Explained.compressing.mp4.
+Error opening output files: Encoder not found`;
+
+describe("describeFfmpegError", () => {
+  it("keeps the lines that give a reason, not just the last one", () => {
+    expect(describeFfmpegError({ stderr: ENCODER_MISSING }).split("; ")).toEqual([
+      "Unknown encoder 'libsvtav1'",
+      "Error selecting an encoder",
+      "Error opening output file Error Codes Explained.compressing.mp4.",
+      "Error opening output files: Encoder not found",
+    ]);
+  });
+
+  it("falls back to the last line and then the message", () => {
+    expect(describeFfmpegError({ stderr: "frame=1\nKilled\n" })).toBe("Killed");
+    expect(describeFfmpegError({ shortMessage: "Command timed out", stderr: "" })).toBe("Command timed out");
+  });
+});
+
+describe("compressVideo", () => {
+  let folder: string;
+  let ffmpegPath: string;
+
+  beforeAll(() => {
+    folder = fs.mkdtempSync(path.join(os.tmpdir(), "ffmpeg-test-"));
+    // Stands in for an ffmpeg built without the encoder
+    ffmpegPath = path.join(folder, "ffmpeg");
+    fs.writeFileSync(path.join(folder, "stderr.txt"), ENCODER_MISSING);
+    fs.writeFileSync(ffmpegPath, `#!/bin/sh\ncat "${path.join(folder, "stderr.txt")}" >&2\nexit 1\n`, { mode: 0o755 });
+  });
+
+  afterAll(() => fs.rmSync(folder, { recursive: true, force: true }));
+
+  it("fails with a reason that offers the default encoder", async () => {
+    const videoFile = path.join(folder, "video.mp4");
+    const error = await compressVideo(ffmpegPath, videoFile, ["-c:v", "libsvtav1"], [], {}).catch((e) => e);
+    expect(error.message).toMatch(/^Compressing the video failed: .*Encoder not found$/);
+    expect(classifyDownloadError(error, "")).toBe("encoder-missing");
+  });
+});
@@ -0,0 +1,90 @@
+import { execa, ResultPromise } from "execa";
+import fs from "fs";
+import path from "path";
+import { DownloadProgress, ProgressPhase, createFfmpegProgressParser } from "./progress";
+
+export interface FfmpegRunOptions {
+  phase: ProgressPhase;
+  duration?: number; // media length in seconds, read from ffmpeg's own output when omitted
+  onProgress?: (progress: DownloadProgress) => void;
+  onSpawn?: (subprocess: ResultPromise) => void; // lets the queue stop the process
+}
+
+// Runs ffmpeg with machine-readable progress on stdout
+export const runFfmpeg = async (ffmpegPath: string, args: string[], options: FfmpegRunOptions) => {
+  const parser = createFfmpegProgressParser(options.phase, options.duration);
+  const subprocess = execa(ffmpegPath, ["-progress", "pipe:1", "-nostats", ...args], { timeout: 900000 });
+  options.onSpawn?.(subprocess);
+
+  subprocess.stdout?.on("data", (chunk: Buffer | string) => {
+    parser.parseStdout(chunk.toString()).forEach((progress) => options.onProgress?.(progress));
+  });
+  subprocess.stderr?.on("data", (chunk: Buffer | string) => parser.parseStderr(chunk.toString()));
+  await subprocess;
+};
+
+export interface MediaProbe {
+  duration?: number; // in seconds
+  width?: number;
+  height?: number;
+  hasAudio: boolean;
+}
+
+// Reads the length, picture size and audio presence from the summary ffmpeg prints for an input.
+// Without an output ffmpeg exits with an error, so the exit code is ignored.
+export const probeMedia = async (ffmpegPath: string, file: string): Promise<MediaProbe> => {
+  const { stderr } = await execa(ffmpegPath, ["-hide_banner", "-i", file], { reject: false, timeout: 30000 });
+  const duration = stderr.match(/Duration: (\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+  // The first video stream that isn't cover art
+  const video = stderr
+    .split("\n")
+    .find((line) => /Stream #.*Video:/.test(line) && !/attached pic/.test(line))
+    ?.match(/, (\d{2,5})x(\d{2,5})/);
+  return {
+    duration: duration
+      ? parseInt(duration[1]) * 3600 + parseInt(duration[2]) * 60 + parseFloat(duration[3])
+      : undefined,
+    width: video ? parseInt(video[1]) : undefined,
+    height: video ? parseInt(video[2]) : undefined,
+    hasAudio: /Stream #.*Audio:/.test(stderr),
+  };
+};
+
+// stderr lines that give a reason, rather than describe the input, its streams or the encoding settings
+const FFMPEG_REASON = /error|unknown|not found|invalid|failed|no such|denied|unable|cannot|could not/i;
+const FFMPEG_DESCRIPTION = /^(Input|Output|Stream|Duration|Metadata|Stream mapping|Press \[q\])/;
+
+// ffmpeg's own reasons, e.g. "Unknown encoder 'libsvtav1'; Error selecting an encoder", from the end of its stderr.
+// The last line alone is too vague since ffmpeg 6, which ends with "Error opening output files: Encoder not found".
+export const describeFfmpegError = (error: unknown): string => {
+  const { shortMessage, stderr } = error as { shortMessage?: string; stderr?: string };
+  const lines = typeof stderr === "string" ? stderr.split("\n").map((line) => line.trim()) : [];
+  const reasons = lines
+    // The component that complained, e.g. "[vost#0:0 @ 0x600000c3c000]", is left out
+    .map((line) => line.replace(/^\[[^\]]+ @ 0x[\da-f]+\]\s*/i, ""))
+    .filter((line) => FFMPEG_REASON.test(line) && !FFMPEG_DESCRIPTION.test(line));
+  const lastReasons = [...new Set(reasons)].slice(-4);
+  return lastReasons.join("; ") || lines.filter(Boolean).pop() || shortMessage || String(error);
+};
+
+// Re-encodes the main video stream (and the audio, when audioArgs are given), replacing the file when done
+export const compressVideo = async (
+  ffmpegPath: string,
+  videoFile: string,
+  videoArgs: string[],
+  audioArgs: string[],
+  options: Omit<FfmpegRunOptions, "phase">,
+) => {
+  const { dir, name, ext } = path.parse(videoFile);
+  const tempVideoFile = path.join(dir, `${name}.compressing${ext}`);
+  // Subtitles, chapters and cover art are copied over untouched
+  const args = ["-y", "-i", videoFile, "-map", "0", "-c", "copy", ...videoArgs, ...audioArgs];
+
+  try {
+    await runFfmpeg(ffmpegPath, [...args, tempVideoFile], { ...options, phase: "compress" });
+    await fs.promises.rename(tempVideoFile, videoFile);
+  } catch (error) {
+    await fs.promises.rm(tempVideoFile, { force: true });
+    throw new Error(`Compressing the video failed: ${describeFfmpegError(error)}`);
+  }
+};
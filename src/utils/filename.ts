@@ -0,0 +1,144 @@
+import { getPreferenceValues } from "@raycast/api";
+import fs from "fs";
+import path from "path";
+import { VideoInfo } from "./video-info";
+
+export type CollisionPolicy = "overwrite" | "skip" | "suffix";
+
+export interface FilenameSettings {
+  template: string; // yt-dlp output template without the extension; "/" creates folders
+  collisionPolicy: CollisionPolicy;
+  safeNames: boolean; // strip emoji and characters other systems can't store
+}
+
+export const DEFAULT_FILENAME_TEMPLATE = "%(title)s";
+
+interface FilenamePreferences {
+  filenameTemplate?: string;
+  collisionPolicy?: CollisionPolicy;
+  safeFilenames?: boolean;
+}
+
+// The file name settings from the extension preferences, which every download starts with
+export const getDefaultFilenameSettings = (): FilenameSettings => {
+  const { filenameTemplate, collisionPolicy, safeFilenames } = getPreferenceValues<FilenamePreferences>();
+  return {
+    template: filenameTemplate || DEFAULT_FILENAME_TEMPLATE,
+    collisionPolicy: collisionPolicy || "skip",
+    safeNames: safeFilenames ?? true,
+  };
+};
+
+// Longest file or folder name yt-dlp may write, leaving room for suffixes and the extension
+export const MAX_FILENAME_LENGTH = 150;
+
+export const FILENAME_PLACEHOLDERS = [
+  { placeholder: "%(title)s", description: "Video title" },
+  { placeholder: "%(uploader)s", description: "Channel name" },
+  { placeholder: "%(upload_date>%Y-%m-%d)s", description: "Upload date" },
+  { placeholder: "%(id)s", description: "Video ID" },
+  { placeholder: "%(playlist)s", description: "Playlist title" },
+  { placeholder: "%(playlist_index)s", description: "Position in the playlist" },
+  { placeholder: "%(resolution)s", description: "Resolution, e.g. 1920x1080" },
+];
+
+// Emoji and the joiners and variation selectors that glue them together, as a Python regex for yt-dlp
+const EMOJI_PATTERN = "[\\U0001F000-\\U0001FAFF\\u2600-\\u27BF\\uFE0F\\u200D]";
+const emojiRegex = /[\u{1F000}-\u{1FAFF}\u{2600}-\u{27BF}]|\u{FE0F}|\u{200D}/gu;
+
+// Arguments that apply the sanitisation and length limit when yt-dlp fills in the template
+export const buildFilenameArgs = (filename: FilenameSettings | undefined): string[] => {
+  if (!filename) return [];
+  const args = ["--trim-filenames", String(MAX_FILENAME_LENGTH)];
+  if (filename.safeNames) {
+    args.push("--replace-in-metadata", "title,uploader,channel,playlist,playlist_title", EMOJI_PATTERN, "");
+    args.push("--windows-filenames");
+  }
+  if (filename.collisionPolicy === "overwrite") {
+    args.push("--force-overwrites");
+  } else {
+    args.push("--no-overwrites");
+  }
+  return args;
+};
+
+// Mirrors yt-dlp's own clean-up: characters file systems reject become their full-width look-alikes
+const sanitizeValue = (value: string, safeNames: boolean): string => {
+  let sanitized = value.replace(/[\\/|*<>:"?]/g, (char) =>
+    char === "/" ? "⧸" : char === "\\" ? "⧹" : String.fromCharCode(char.charCodeAt(0) + 0xfee0),
+  );
+  if (safeNames) sanitized = sanitized.replace(emojiRegex, "").replace(/\s+/g, " ");
+  return sanitized.trim();
+};
+
+// Formats YYYYMMDD dates with the strftime codes used in templates like %(upload_date>%Y-%m-%d)s
+const formatTemplateDate = (date: string, format: string): string => {
+  const match = date.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (!match) return date;
+  return format
+    .replace(/%Y/g, match[1])
+    .replace(/%y/g, match[1].slice(2))
+    .replace(/%m/g, match[2])
+    .replace(/%d/g, match[3]);
+};
+
+const getTemplateValue = (info: VideoInfo, key: string): string | number | undefined => {
+  switch (key) {
+    case "playlist":
+    case "playlist_title":
+      return info.playlist_title || info.playlist || undefined;
+    case "resolution":
+      return info.resolution || (info.width && info.height ? `${info.width}x${info.height}` : undefined);
+    case "uploader":
+      return info.uploader || info.channel;
+    default: {
+      const value = (info as Record<string, unknown>)[key];
+      return typeof value === "string" || typeof value === "number" ? value : undefined;
+    }
+  }
+};
+
+// Renders the template the way yt-dlp will for this video, e.g. "Uploader/2024-05-01 - Title.mp4"
+export const renderFilenamePreview = (
+  template: string,
+  info: VideoInfo,
+  extension: string,
+  safeNames: boolean,
+): string => {
+  const rendered = template.replace(/%\((\w+)(?:>([^)]*))?\)(0?\d*)([sd])/g, (_, key, dateFormat, width, type) => {
+    const value = getTemplateValue(info, key);
+    if (value === undefined || value === null) return "NA";
+    if (dateFormat) return sanitizeValue(formatTemplateDate(String(value), dateFormat), safeNames);
+    if (type === "d" && width) return String(value).padStart(parseInt(width), "0");
+    return sanitizeValue(String(value), safeNames);
+  });
+  const parts = rendered.split("/").map((part) => part.trim().slice(0, MAX_FILENAME_LENGTH));
+  return `${parts.join("/")}.${extension}`;
+};
+
+// Returns an error message for templates yt-dlp can't use, or undefined when it is fine
+export const validateFilenameTemplate = (template: string): string | undefined => {
+  if (!template.trim()) return "The file name template cannot be empty.";
+  if (template.startsWith("/") || template.split("/").includes("..")) {
+    return "Use a path inside the output folder.";
+  }
+  if (/%\([^)]*$/.test(template)) return "A placeholder is missing its closing parenthesis.";
+  if (/\.%\(ext\)s$/.test(template)) return "Leave out the extension, it is added automatically.";
+  return undefined;
+};
+
+// Points -o at "name (2).ext" (or the next free number) when the file yt-dlp plans to write already exists
+export const withUniqueOutput = (args: string[], plannedFile: string, finalExtension: string): string[] => {
+  const file = finalExtension ? plannedFile.replace(/\.[^./]+$/, `.${finalExtension}`) : plannedFile;
+  if (!fs.existsSync(file)) return args;
+
+  const { dir, name, ext } = path.parse(file);
+  let counter = 2;
+  while (fs.existsSync(path.join(dir, `${name} (${counter})${ext}`))) counter++;
+  // The name is already filled in, so any % in it must not be read as a placeholder
+  const template = `${path.join(dir, `${name} (${counter})`).replace(/%/g, "%%")}.%(ext)s`;
+
+  const outputIndex = args.findIndex((arg, i) => arg === "-o" && !args[i + 1]?.startsWith("chapter:"));
+  if (outputIndex < 0) return args;
+  return [...args.slice(0, outputIndex + 1), template, ...args.slice(outputIndex + 2)];
+};
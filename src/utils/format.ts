@@ -0,0 +1,30 @@
+// Formats seconds as m:ss, or h:mm:ss for anything an hour or longer
+export const formatDuration = (totalSeconds: number): string => {
+  const seconds = Math.floor(totalSeconds % 60);
+  const minutes = Math.floor(totalSeconds / 60) % 60;
+  const hours = Math.floor(totalSeconds / 3600);
+  const ss = seconds.toString().padStart(2, "0");
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, "0")}:${ss}` : `${minutes}:${ss}`;
+};
+
+// Formats a byte count with the largest fitting unit, e.g. "12.3 MB"
+export const formatFileSize = (bytes: number): string => {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+};
+
+// Shortens view counts the way YouTube does, e.g. "1.2M views"
+export const formatViewCount = (views: number): string =>
+  `${new Intl.NumberFormat("en", { notation: "compact", maximumFractionDigits: 1 }).format(views)} ${views === 1 ? "view" : "views"}`;
+
+// Turns yt-dlp's YYYYMMDD dates into a Date, or undefined when the date is missing or malformed
+export const parseUploadDate = (date?: string): Date | undefined => {
+  const match = date?.match(/^(\d{4})(\d{2})(\d{2})$/);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : undefined;
+};
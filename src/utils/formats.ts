@@ -0,0 +1,118 @@
+import { isVideoOnlyType, isVideoType } from "./codecs";
+import { formatFileSize } from "./format";
+import { VideoFormat } from "./video-info";
+
+// Heights offered by the simple Video Quality dropdown, highest first
+export const QUALITY_HEIGHTS = [2160, 1440, 1080, 720, 480];
+
+export const hasVideo = (format: VideoFormat) => !!format.vcodec && format.vcodec !== "none";
+export const hasAudio = (format: VideoFormat) => !!format.acodec && format.acodec !== "none";
+
+export const getFormatSize = (format: VideoFormat, duration?: number): { bytes: number; exact: boolean } | null => {
+  if (format.filesize) return { bytes: format.filesize, exact: true };
+  if (format.filesize_approx) return { bytes: format.filesize_approx, exact: false };
+  if (format.tbr && duration) return { bytes: (format.tbr * 1000 * duration) / 8, exact: false };
+  return null;
+};
+
+// Quality options whose height band (above the next lower option, up to their own height) has a format.
+// Other options would select exactly the same format as a lower one, or fail outright.
+export const getAvailableQualities = (formats: VideoFormat[]): string[] => {
+  const heights = formats.filter(hasVideo).map((format) => format.height || 0);
+  return QUALITY_HEIGHTS.filter((height, i) => {
+    const lower = i === QUALITY_HEIGHTS.length - 1 ? 0 : QUALITY_HEIGHTS[i + 1];
+    return heights.some((h) => h > lower && h <= height);
+  }).map((height) => `${height}p`);
+};
+
+const codecNames: Record<string, string> = {
+  avc1: "H.264",
+  avc3: "H.264",
+  hev1: "H.265",
+  hvc1: "H.265",
+  vp09: "VP9",
+  vp9: "VP9",
+  av01: "AV1",
+  mp4a: "AAC",
+  opus: "Opus",
+  ac_3: "AC-3",
+  ec_3: "E-AC-3",
+};
+
+// "avc1.640028" becomes "H.264", unknown codecs keep their own name
+export const getCodecName = (codec?: string): string => {
+  if (!codec || codec === "none") return "";
+  const family = codec.split(".")[0].toLowerCase().replace("-", "_");
+  return codecNames[family] || family;
+};
+
+const formatSizeLabel = (format: VideoFormat, duration?: number): string => {
+  const size = getFormatSize(format, duration);
+  if (!size) return "";
+  return `${size.exact ? "" : "~"}${formatFileSize(size.bytes)}`;
+};
+
+// e.g. "1080p60 · VP9 · HDR · webm · 412.3 MB"
+export const describeVideoFormat = (format: VideoFormat, duration?: number): string => {
+  const fps = format.fps && format.fps > 30 ? Math.round(format.fps) : "";
+  const parts = [
+    format.height ? `${format.height}p${fps}` : format.format_note || format.format_id,
+    getCodecName(format.vcodec),
+    format.dynamic_range && format.dynamic_range !== "SDR" ? format.dynamic_range : "",
+    format.ext,
+    hasAudio(format) ? "with audio" : "",
+    formatSizeLabel(format, duration),
+  ];
+  return parts.filter(Boolean).join(" · ");
+};
+
+// e.g. "en · original · Opus · 129 kbps · webm · 3.4 MB"
+export const describeAudioFormat = (format: VideoFormat, duration?: number): string => {
+  const bitrate = format.abr || format.tbr;
+  const parts = [
+    format.language || "",
+    /original/i.test(format.format_note || "") ? "original" : "",
+    getCodecName(format.acodec),
+    bitrate ? `${Math.round(bitrate)} kbps` : "",
+    format.ext,
+    formatSizeLabel(format, duration),
+  ];
+  return parts.filter(Boolean).join(" · ");
+};
+
+// Video formats best first: separate video streams, plus combined ones since some videos only have those
+export const getVideoFormats = (formats: VideoFormat[]): VideoFormat[] =>
+  formats
+    .filter(hasVideo)
+    .sort((a, b) => (b.height || 0) - (a.height || 0) || (b.fps || 0) - (a.fps || 0) || (b.tbr || 0) - (a.tbr || 0));
+
+// Audio-only formats, grouped by language and then by bitrate, best first
+export const getAudioFormats = (formats: VideoFormat[]): VideoFormat[] =>
+  formats
+    .filter((format) => hasAudio(format) && !hasVideo(format))
+    .sort(
+      (a, b) => (a.language || "").localeCompare(b.language || "") || (b.abr || b.tbr || 0) - (a.abr || a.tbr || 0),
+    );
+
+// The track yt-dlp would pick by default: the original language when marked, otherwise the highest bitrate
+export const getDefaultAudioFormat = (audioFormats: VideoFormat[]): VideoFormat | undefined => {
+  const bestFirst = [...audioFormats].sort((a, b) => (b.abr || b.tbr || 0) - (a.abr || a.tbr || 0));
+  return bestFirst.find((format) => /original|default/i.test(format.format_note || "")) || bestFirst[0];
+};
+
+// Builds the -f argument for an exact format choice
+export const buildFormatSelection = (
+  downloadType: string,
+  videoFormat: VideoFormat | undefined,
+  audioFormat: VideoFormat | undefined,
+): string | undefined => {
+  if (isVideoType(downloadType) && !isVideoOnlyType(downloadType)) {
+    if (!videoFormat) return undefined;
+    // Combined formats already carry their own audio
+    if (hasAudio(videoFormat)) return videoFormat.format_id;
+    if (!audioFormat) return `${videoFormat.format_id}+bestaudio/${videoFormat.format_id}`;
+    return `${videoFormat.format_id}+${audioFormat.format_id}`;
+  }
+  if (isVideoOnlyType(downloadType)) return videoFormat?.format_id;
+  return audioFormat?.format_id;
+};
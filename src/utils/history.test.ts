@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { DownloadSettings } from "./download";
+import { HistoryEntry, canDeleteFolder, isInsideFolder } from "./history";
+
+const entry = (entryPath: string): HistoryEntry => ({
+  id: "1",
+  url: "https://youtu.be/abc",
+  title: "Album",
+  path: entryPath,
+  settings: { outputPath: "/Users/me/Downloads" } as DownloadSettings,
+  downloadedAt: 0,
+});
+
+describe("isInsideFolder", () => {
+  it.each<[string, string, boolean]>([
+    ["/Users/me/Downloads/Album", "/Users/me/Downloads", true],
+    ["/Users/me/Downloads/Mix/Disc 1", "/Users/me/Downloads/", true],
+    ["/Users/me/Downloads", "/Users/me/Downloads", false],
+    ["/Users/me/Downloads/", "/Users/me/Downloads", false],
+    ["/Users/me", "/Users/me/Downloads", false],
+    ["/Users/me/Downloads Old", "/Users/me/Downloads", false],
+    ["/Users/me/Downloads/../Documents", "/Users/me/Downloads", false],
+  ])("%s in %s is %s", (folder, parent, expected) => {
+    expect(isInsideFolder(folder, parent)).toBe(expected);
+  });
+});
+
+describe("canDeleteFolder", () => {
+  it("allows the folder a playlist or chapter split made", () => {
+    expect(canDeleteFolder(entry("/Users/me/Downloads/Album"))).toBe(true);
+  });
+
+  it("refuses the output folder and the folders around it", () => {
+    expect(canDeleteFolder(entry("/Users/me/Downloads"))).toBe(false);
+    expect(canDeleteFolder(entry("/Users/me"))).toBe(false);
+  });
+});
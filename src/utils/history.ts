@@ -0,0 +1,74 @@
+import { LocalStorage } from "@raycast/api";
+import fs from "fs";
+import path from "path";
+import { DownloadSettings } from "./download";
+
+export interface HistoryEntry {
+  id: string;
+  url: string;
+  title: string;
+  path: string; // final file, or the folder of a playlist or chapter split
+  settings: DownloadSettings;
+  size?: number; // in bytes
+  duration?: number; // media length in seconds
+  downloadedAt: number;
+}
+
+const HISTORY_KEY = "download-history";
+// Oldest entries are dropped beyond this so LocalStorage stays small
+const MAX_HISTORY_ENTRIES = 500;
+
+export const getHistory = async (): Promise<HistoryEntry[]> => {
+  const stored = await LocalStorage.getItem<string>(HISTORY_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return [];
+  }
+};
+
+const saveHistory = (entries: HistoryEntry[]) =>
+  LocalStorage.setItem(HISTORY_KEY, JSON.stringify(entries.slice(0, MAX_HISTORY_ENTRIES)));
+
+// Sums file sizes, descending into folders so playlist downloads report their total
+const getPathSize = async (target: string): Promise<number | undefined> => {
+  try {
+    const stats = await fs.promises.stat(target);
+    if (!stats.isDirectory()) return stats.size;
+    const names = await fs.promises.readdir(target);
+    const sizes = await Promise.all(names.map((name) => getPathSize(path.join(target, name))));
+    return sizes.reduce<number>((total, size) => total + (size || 0), 0);
+  } catch {
+    return undefined;
+  }
+};
+
+// Whether `folder` lies inside `parent` without being it
+export const isInsideFolder = (folder: string, parent: string): boolean => {
+  const relative = path.relative(path.resolve(parent), path.resolve(folder));
+  return !!relative && !relative.startsWith("..") && !path.isAbsolute(relative);
+};
+
+// Deleting a download's folder removes everything in it, so only a folder the download made for itself
+// (inside the output folder it was saved to) may go; never the output folder or anything around it
+export const canDeleteFolder = (entry: HistoryEntry): boolean => isInsideFolder(entry.path, entry.settings.outputPath);
+
+export const addHistoryEntry = async (entry: Omit<HistoryEntry, "id" | "size" | "downloadedAt">) => {
+  const history = await getHistory();
+  const newEntry: HistoryEntry = {
+    ...entry,
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    size: await getPathSize(entry.path),
+    downloadedAt: Date.now(),
+  };
+  await saveHistory([newEntry, ...history]);
+  return newEntry;
+};
+
+export const removeHistoryEntry = async (id: string) => {
+  const history = await getHistory();
+  await saveHistory(history.filter((entry) => entry.id !== id));
+};
+
+export const clearHistory = () => LocalStorage.removeItem(HISTORY_KEY);
@@ -0,0 +1,76 @@
+import { Clipboard, LaunchType, Toast, launchCommand, openExtensionPreferences, showToast } from "@raycast/api";
+import { needsSignIn } from "./errors";
+import { getPhaseLabel } from "./progress";
+import { DownloadJob, cancelJob, subscribeToJobs } from "./queue";
+
+// Follows a queued job in a toast until it finishes, fails or is paused
+export const trackJobInToast = async (job: DownloadJob) => {
+  const toast = await showToast({
+    style: Toast.Style.Animated,
+    title: "Added to Queue",
+    message: `Preparing to download ${job.url}`,
+    primaryAction: {
+      title: "Cancel Download",
+      onAction: () => cancelJob(job.id),
+    },
+    secondaryAction: {
+      title: "Open Downloads",
+      onAction: () => launchCommand({ name: "downloads", type: LaunchType.UserInitiated }),
+    },
+  });
+
+  const unsubscribe = subscribeToJobs((updated) => {
+    if (updated.id !== job.id) return;
+
+    if (updated.state === "running") {
+      const { currentItem, totalItems } = updated.progress || {};
+      const label = updated.progress ? getPhaseLabel(updated.progress) : "Downloading";
+      toast.title = totalItems ? `${label} ${currentItem} of ${totalItems}` : `${label}...`;
+      toast.message = updated.message;
+    } else if (updated.state === "queued" && updated.retryAt) {
+      toast.title = "Download Interrupted";
+      toast.message = updated.message;
+    } else if (updated.state === "queued" && updated.remedies?.length) {
+      toast.title = "Retrying Download";
+      toast.message = updated.message;
+    } else if (updated.state === "done") {
+      toast.style = Toast.Style.Success;
+      toast.title = "Download Complete!";
+      toast.message = updated.message;
+      toast.primaryAction = undefined; // Remove cancel action on success
+      unsubscribe();
+    } else if (updated.state === "paused") {
+      toast.style = Toast.Style.Success;
+      toast.title = "Download Paused";
+      toast.message = "Resume it from the Downloads command.";
+      toast.primaryAction = undefined;
+      unsubscribe();
+    } else if (updated.state === "failed") {
+      toast.style = updated.cancelled ? Toast.Style.Success : Toast.Style.Failure;
+      toast.title = updated.cancelled
+        ? "Download Cancelled"
+        : needsSignIn(updated.errorKind)
+          ? "Sign-In Required"
+          : "Download Failed";
+      toast.message = updated.message;
+      if (updated.cancelled || !updated.errorDetails) {
+        toast.primaryAction = undefined; // No actions if cancelled by user
+      } else {
+        const errorDetailsForClipboard = updated.errorDetails;
+        toast.primaryAction = {
+          title: "Copy Error Details",
+          onAction: async () => {
+            await Clipboard.copy(errorDetailsForClipboard);
+            await showToast(Toast.Style.Success, "Error details copied to clipboard.");
+          },
+        };
+        // Signing in is the fix, so the cookie settings come first
+        if (needsSignIn(updated.errorKind) || updated.errorKind === "cookies") {
+          toast.secondaryAction = toast.primaryAction;
+          toast.primaryAction = { title: "Set Up Cookies", onAction: openExtensionPreferences };
+        }
+      }
+      unsubscribe();
+    }
+  });
+};
@@ -0,0 +1,44 @@
+import { getPreferenceValues } from "@raycast/api";
+
+interface NetworkPreferences {
+  proxy?: string;
+  rateLimit?: string;
+  sourceAddress?: string;
+  ipFamily?: string;
+  concurrentFragments?: string;
+  socketTimeout?: string;
+  networkRetries?: string;
+}
+
+// yt-dlp arguments for the connection settings in the extension preferences, used by every yt-dlp call.
+// Like cookies, they are added when yt-dlp runs so queued jobs pick up changed preferences.
+export const buildNetworkArgs = (): string[] => {
+  const { proxy, rateLimit, sourceAddress, ipFamily, concurrentFragments, socketTimeout, networkRetries } =
+    getPreferenceValues<NetworkPreferences>();
+  const args: string[] = [];
+
+  if (proxy?.trim()) args.push("--proxy", proxy.trim());
+  if (rateLimit && rateLimit !== "none") args.push("--limit-rate", rateLimit);
+  // A source address already decides the IP family
+  if (sourceAddress?.trim()) {
+    args.push("--source-address", sourceAddress.trim());
+  } else if (ipFamily === "ipv4") {
+    args.push("--force-ipv4");
+  } else if (ipFamily === "ipv6") {
+    args.push("--force-ipv6");
+  }
+  if (concurrentFragments && concurrentFragments !== "1") {
+    args.push("--concurrent-fragments", concurrentFragments);
+  }
+  if (socketTimeout && socketTimeout !== "default") args.push("--socket-timeout", socketTimeout);
+
+  // Retries within one attempt; the queue's automatic retries start a new attempt after a pause
+  const retries = networkRetries || "3";
+  args.push("--retries", retries, "--fragment-retries", retries, "--extractor-retries", retries);
+  args.push("--retry-sleep", "1");
+  return args;
+};
+
+// A proxy URL can carry a user name and password, which show up in the yt-dlp command line of error details
+export const redactProxy = (text: string): string =>
+  text.replace(/\b([a-z][a-z\d+.-]*:\/\/)[^\s/@]+@/gi, "$1[redacted]@");
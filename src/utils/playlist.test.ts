@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { getPlaylistKind, isPlaylistOnlyUrl, resolvePlaylistUrl } from "./playlist";
+
+const VIDEO_ID = "dQw4w9WgXcQ";
+const PLAYLIST_ID = "PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf";
+
+describe("getPlaylistKind and isPlaylistOnlyUrl", () => {
+  it.each<[string, ReturnType<typeof getPlaylistKind>, boolean]>([
+    [`https://www.youtube.com/playlist?list=${PLAYLIST_ID}`, "playlist", true],
+    [`https://www.youtube.com/watch?list=${PLAYLIST_ID}`, "playlist", true],
+    [`https://www.youtube.com/watch?v=${VIDEO_ID}&list=${PLAYLIST_ID}`, "playlist", false],
+    [`https://youtu.be/${VIDEO_ID}?list=${PLAYLIST_ID}`, "playlist", false],
+    ["https://www.youtube.com/@LinusTechTips", "channel", true],
+    ["https://m.youtube.com/channel/UCXuqSBlHAE6Xw-yeJA0Tunw/shorts", "channel", true],
+    [`https://www.youtube.com/watch?v=${VIDEO_ID}`, null, false],
+    ["https://vimeo.com/76979871?list=abc", null, false],
+  ])("reads %s as %s", (url, kind, playlistOnly) => {
+    expect(getPlaylistKind(url)).toBe(kind);
+    expect(isPlaylistOnlyUrl(url)).toBe(playlistOnly);
+  });
+});
+
+describe("resolvePlaylistUrl", () => {
+  it("points a bare channel at its uploads", () => {
+    expect(resolvePlaylistUrl("https://www.youtube.com/@LinusTechTips/")).toBe(
+      "https://www.youtube.com/@LinusTechTips/videos",
+    );
+  });
+
+  it("keeps a channel tab, playlists and videos as they are", () => {
+    expect(resolvePlaylistUrl("https://www.youtube.com/@LinusTechTips/streams")).toBe(
+      "https://www.youtube.com/@LinusTechTips/streams",
+    );
+    const watch = `https://www.youtube.com/watch?v=${VIDEO_ID}&list=${PLAYLIST_ID}`;
+    expect(resolvePlaylistUrl(watch)).toBe(watch);
+  });
+});
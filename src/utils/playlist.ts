@@ -0,0 +1,119 @@
+import { execa } from "execa";
+import { buildCookieArgs } from "./cookies";
+import { buildNetworkArgs } from "./network";
+import { parseMediaUrl } from "./url";
+
+export interface PlaylistEntry {
+  index: number; // 1-based playlist_index as yt-dlp reports it
+  id: string;
+  title: string;
+  duration?: number;
+}
+
+export interface PlaylistInfo {
+  id?: string;
+  title: string;
+  uploader?: string;
+  entries: PlaylistEntry[];
+}
+
+// Progress line yt-dlp prints before each playlist entry
+export const playlistItemRegex = /\[download\] Downloading (?:item|video) (?<current>\d+) of (?<total>\d+)/;
+
+export type PlaylistKind = "playlist" | "channel";
+
+export const getPlaylistKind = (url: string): PlaylistKind | null => {
+  const parsed = parseMediaUrl(url);
+  if (parsed?.kind === "channel") return "channel";
+  return parsed?.playlistId ? "playlist" : null;
+};
+
+// True when the URL only makes sense as a playlist (no single video to fall back to)
+export const isPlaylistOnlyUrl = (url: string): boolean => {
+  const kind = parseMediaUrl(url)?.kind;
+  return kind === "playlist" || kind === "channel";
+};
+
+// A bare channel URL resolves to a list of tabs; point it at the uploads tab instead
+export const resolvePlaylistUrl = (url: string): string => {
+  const parsed = parseMediaUrl(url);
+  return parsed?.kind === "channel" && !parsed.channelTab ? `${parsed.url}/videos` : url;
+};
+
+// Lists the entries of a playlist or channel tab without resolving each video
+export const fetchPlaylistInfo = async (ytDlpPath: string, url: string): Promise<PlaylistInfo> => {
+  const result = await execa(
+    ytDlpPath,
+    [
+      resolvePlaylistUrl(url),
+      "--flat-playlist",
+      "--dump-single-json",
+      "--yes-playlist",
+      ...buildNetworkArgs(),
+      ...buildCookieArgs(),
+    ],
+    { timeout: 120000 },
+  );
+  const info = JSON.parse(result.stdout);
+  const entries: PlaylistEntry[] = (info.entries || [])
+    .filter((entry: { id?: string } | null) => entry && entry.id)
+    .map((entry: { id: string; title?: string; duration?: number }, i: number) => ({
+      index: i + 1,
+      id: entry.id,
+      title: entry.title || entry.id,
+      duration: typeof entry.duration === "number" ? entry.duration : undefined,
+    }));
+
+  return {
+    id: info.id,
+    title: info.title || info.id || "Playlist",
+    uploader: info.uploader || info.channel,
+    entries,
+  };
+};
+
+// Parses an index range such as "1-5, 8, 10-" into sorted, de-duplicated indices
+export const parseItemRange = (range: string, count: number): number[] | null => {
+  const indices = new Set<number>();
+  const parts = range
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (parts.length === 0) return null;
+
+  for (const part of parts) {
+    const match = part.match(/^(\d*)\s*-\s*(\d*)$/);
+    if (match) {
+      const start = match[1] ? parseInt(match[1]) : 1;
+      const end = match[2] ? parseInt(match[2]) : count;
+      if (start < 1 || end < start) return null;
+      for (let i = start; i <= Math.min(end, count); i++) indices.add(i);
+    } else if (/^\d+$/.test(part)) {
+      const index = parseInt(part);
+      if (index < 1 || index > count) return null;
+      indices.add(index);
+    } else {
+      return null;
+    }
+  }
+  return [...indices].sort((a, b) => a - b);
+};
+
+// Formats indices back into the compact syntax --playlist-items expects ("1-3,5")
+export const formatItemRange = (indices: number[]): string => {
+  const sorted = [...new Set(indices)].sort((a, b) => a - b);
+  const ranges: string[] = [];
+  let start = sorted[0];
+  let prev = sorted[0];
+
+  for (const index of sorted.slice(1).concat(NaN)) {
+    if (index === prev + 1) {
+      prev = index;
+      continue;
+    }
+    ranges.push(start === prev ? `${start}` : `${start}-${prev}`);
+    start = index;
+    prev = index;
+  }
+  return sorted.length ? ranges.join(",") : "";
+};
@@ -0,0 +1,67 @@
+import { supportsThumbnail } from "./codecs";
+
+export type SponsorBlockMode = "off" | "mark" | "remove";
+
+export interface PostProcessSettings {
+  embedThumbnail: boolean; // MP4 cover, or album art for audio
+  embedMetadata: boolean; // title, artist (uploader), date, description and source URL
+  embedChapters: boolean;
+  sponsorBlock: SponsorBlockMode;
+  sponsorBlockCategories: string[];
+}
+
+export const DEFAULT_POST_PROCESSING: PostProcessSettings = {
+  embedThumbnail: false,
+  embedMetadata: false,
+  embedChapters: false,
+  sponsorBlock: "off",
+  sponsorBlockCategories: ["sponsor", "selfpromo", "interaction"],
+};
+
+export const SPONSORBLOCK_CATEGORIES = [
+  { value: "sponsor", title: "Sponsor" },
+  { value: "selfpromo", title: "Self-Promotion" },
+  { value: "interaction", title: "Interaction Reminder" },
+  { value: "intro", title: "Intro" },
+  { value: "outro", title: "Outro / Endcards" },
+  { value: "preview", title: "Preview / Recap" },
+  { value: "filler", title: "Filler Tangent" },
+  { value: "music_offtopic", title: "Non-Music Section" },
+];
+
+export const isPostProcessingEqual = (a?: PostProcessSettings, b?: PostProcessSettings): boolean => {
+  const left = a || DEFAULT_POST_PROCESSING;
+  const right = b || DEFAULT_POST_PROCESSING;
+  return (
+    left.embedThumbnail === right.embedThumbnail &&
+    left.embedMetadata === right.embedMetadata &&
+    left.embedChapters === right.embedChapters &&
+    left.sponsorBlock === right.sponsorBlock &&
+    (left.sponsorBlock === "off" ||
+      [...left.sponsorBlockCategories].sort().join() === [...right.sponsorBlockCategories].sort().join())
+  );
+};
+
+export const buildPostProcessArgs = (
+  postProcessing: PostProcessSettings | undefined,
+  downloadType: string,
+): string[] => {
+  if (!postProcessing) return [];
+  const args: string[] = [];
+  // yt-dlp fails the whole download when it can't embed the thumbnail, so unsupported files go without
+  if (postProcessing.embedThumbnail && supportsThumbnail(downloadType)) {
+    // WebP thumbnails can't be embedded in MP4 or MP3, so they are converted first
+    args.push("--embed-thumbnail", "--convert-thumbnails", "jpg");
+  }
+  if (postProcessing.embedMetadata) args.push("--embed-metadata");
+
+  const categories = postProcessing.sponsorBlockCategories.join(",");
+  if (postProcessing.sponsorBlock === "mark" && categories) {
+    // Marked segments only show up in players as chapters
+    args.push("--sponsorblock-mark", categories, "--embed-chapters");
+  } else {
+    if (postProcessing.sponsorBlock === "remove" && categories) args.push("--sponsorblock-remove", categories);
+    if (postProcessing.embedChapters) args.push("--embed-chapters");
+  }
+  return args;
+};
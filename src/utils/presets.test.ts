@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { parsePresetsJson } from "./presets";
+
+const exported = (...presets: unknown[]) => JSON.stringify({ version: 1, presets });
+
+describe("parsePresetsJson", () => {
+  it("keeps only the fields a preset has", () => {
+    const { presets, skipped } = parsePresetsJson(
+      exported({
+        name: " Podcast ",
+        downloadType: "mp3_audio",
+        mp3Quality: "2",
+        builtIn: true,
+        id: "high-quality",
+        command: "rm -rf ~",
+      }),
+    );
+    expect(skipped).toEqual([]);
+    expect(presets).toEqual([
+      {
+        name: "Podcast",
+        description: undefined,
+        downloadType: "mp3_audio",
+        videoQuality: "best",
+        compressionLevel: "none",
+        compressionCrf: "23",
+        targetSize: undefined,
+        mp3Quality: "2",
+        videoEncoder: undefined,
+        encoderSpeed: undefined,
+        audioBitrate: undefined,
+        postProcessing: undefined,
+      },
+    ]);
+  });
+
+  it("skips entries with settings this version doesn't know and says why", () => {
+    const { presets, skipped } = parsePresetsJson(
+      exported(
+        { name: "4K AV1", downloadType: "mp4_video_audio", videoEncoder: "av1" },
+        { name: "Next Gen", downloadType: "mp4_video_audio", videoEncoder: "av2" },
+        { name: "GIF", downloadType: "gif_video" },
+        { name: "Turbo", downloadType: "mkv_video_audio", encoderSpeed: "ultrafast" },
+        { downloadType: "mp4_video_audio" },
+      ),
+    );
+    expect(presets.map((preset) => preset.name)).toEqual(["4K AV1"]);
+    expect(skipped).toEqual([
+      '"Next Gen" (unknown encoder av2)',
+      '"GIF" (unknown download type gif_video)',
+      '"Turbo" (unknown encoder speed ultrafast)',
+      "Entry 5 (no name)",
+    ]);
+  });
+
+  it("drops unknown post-processing options and SponsorBlock categories", () => {
+    const { presets } = parsePresetsJson(
+      exported({
+        name: "Clean",
+        downloadType: "mp4_video_audio",
+        postProcessing: { embedMetadata: true, sponsorBlock: "remove", sponsorBlockCategories: ["sponsor", "ads"] },
+      }),
+    );
+    expect(presets[0].postProcessing).toEqual({
+      embedThumbnail: false,
+      embedMetadata: true,
+      embedChapters: false,
+      sponsorBlock: "remove",
+      sponsorBlockCategories: ["sponsor"],
+    });
+  });
+
+  it("rejects text that isn't an exported file", () => {
+    expect(() => parsePresetsJson("not json")).toThrow("not valid JSON");
+    expect(() => parsePresetsJson('{"version": 1}')).toThrow("No presets found");
+  });
+});
@@ -0,0 +1,343 @@
+import { LocalStorage } from "@raycast/api";
+import {
+  AUDIO_BITRATES,
+  DEFAULT_AUDIO_BITRATE,
+  DEFAULT_ENCODER_SPEED,
+  DEFAULT_TARGET_SIZE,
+  DOWNLOAD_TYPES,
+  ENCODER_SPEEDS,
+  EncoderSpeed,
+  TARGET_SIZES,
+  VIDEO_ENCODERS,
+  VideoEncoder,
+  getVideoEncoder,
+} from "./codecs";
+import { DownloadSettings } from "./download";
+import { FilenameSettings } from "./filename";
+import {
+  DEFAULT_POST_PROCESSING,
+  PostProcessSettings,
+  SPONSORBLOCK_CATEGORIES,
+  SponsorBlockMode,
+  isPostProcessingEqual,
+} from "./postprocess";
+
+export interface Preset {
+  id: string;
+  name: string;
+  description?: string;
+  downloadType: string;
+  videoQuality: string;
+  compressionLevel: string;
+  compressionCrf: string;
+  targetSize?: string; // in MB, for the "target" compression level
+  mp3Quality: string;
+  videoEncoder?: VideoEncoder; // the container's default encoder when omitted
+  encoderSpeed?: EncoderSpeed;
+  audioBitrate?: string;
+  postProcessing?: PostProcessSettings; // none of the options when omitted
+  builtIn?: boolean; // shipped with the extension, so it can't be edited or deleted
+}
+
+export type PresetSettings = Pick<
+  Preset,
+  | "downloadType"
+  | "videoQuality"
+  | "compressionLevel"
+  | "compressionCrf"
+  | "targetSize"
+  | "mp3Quality"
+  | "videoEncoder"
+  | "encoderSpeed"
+  | "audioBitrate"
+  | "postProcessing"
+>;
+
+const PRESETS_KEY = "presets";
+const DEFAULT_PRESET_KEY = "default-preset";
+// Bumped if the exported JSON ever changes shape
+const EXPORT_VERSION = 1;
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  {
+    id: "high-quality",
+    name: "🎬 High Quality",
+    description: "4K/2K with light compression - Best for viewing",
+    downloadType: "mp4_video_audio",
+    videoQuality: "best",
+    compressionLevel: "light",
+    compressionCrf: "20",
+    mp3Quality: "0",
+  },
+  {
+    id: "mobile-friendly",
+    name: "📱 Mobile Friendly",
+    description: "720p with high compression - Great for phones",
+    downloadType: "mp4_video_audio",
+    videoQuality: "720p",
+    compressionLevel: "high",
+    compressionCrf: "28",
+    mp3Quality: "5",
+  },
+  {
+    id: "storage-saver",
+    name: "💾 Storage Saver",
+    description: "480p with maximum compression - Minimal space",
+    downloadType: "mp4_video_audio",
+    videoQuality: "480p",
+    compressionLevel: "high",
+    compressionCrf: "30",
+    mp3Quality: "5",
+  },
+  {
+    id: "audio-only",
+    name: "🎵 Audio Only",
+    description: "High quality MP3 - Just the sound",
+    downloadType: "mp3_audio",
+    videoQuality: "best",
+    compressionLevel: "none",
+    compressionCrf: "23",
+    mp3Quality: "0",
+  },
+  {
+    id: "balanced",
+    name: "⚖️ Balanced",
+    description: "1080p with medium compression - Good all-around",
+    downloadType: "mp4_video_audio",
+    videoQuality: "1080p",
+    compressionLevel: "medium",
+    compressionCrf: "23",
+    mp3Quality: "2",
+  },
+].map((preset) => ({ ...preset, builtIn: true }));
+
+const createPresetId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const getUserPresets = async (): Promise<Preset[]> => {
+  const stored = await LocalStorage.getItem<string>(PRESETS_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return [];
+  }
+};
+
+const saveUserPresets = (presets: Preset[]) => LocalStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+
+// Built-in presets first, then the user's in the order they were created
+export const getPresets = async (): Promise<Preset[]> => [...BUILT_IN_PRESETS, ...(await getUserPresets())];
+
+// Creates the preset when it has no id yet, otherwise replaces the stored one
+export const savePreset = async (preset: Omit<Preset, "id"> & { id?: string }): Promise<Preset> => {
+  const presets = await getUserPresets();
+  const saved: Preset = { ...preset, id: preset.id || createPresetId(), builtIn: undefined };
+  const index = presets.findIndex((p) => p.id === saved.id);
+  if (index >= 0) {
+    presets[index] = saved;
+  } else {
+    presets.push(saved);
+  }
+  await saveUserPresets(presets);
+  return saved;
+};
+
+export const deletePreset = async (id: string) => {
+  await saveUserPresets((await getUserPresets()).filter((preset) => preset.id !== id));
+  if ((await getDefaultPresetId()) === id) await setDefaultPresetId(undefined);
+};
+
+export const getDefaultPresetId = async (): Promise<string | undefined> =>
+  LocalStorage.getItem<string>(DEFAULT_PRESET_KEY);
+
+// What the download form starts with, for commands without a form when no default preset is set
+export const FORM_DEFAULT_PRESET: Preset = {
+  id: "form-defaults",
+  name: "Default Settings",
+  downloadType: "mp4_video_audio",
+  videoQuality: "best",
+  compressionLevel: "none",
+  compressionCrf: "23",
+  mp3Quality: "5",
+};
+
+// The preset chosen as default, or the form's default settings
+export const getDefaultPreset = async (): Promise<Preset> => {
+  const [presets, defaultId] = await Promise.all([getPresets(), getDefaultPresetId()]);
+  return presets.find((preset) => preset.id === defaultId) || FORM_DEFAULT_PRESET;
+};
+
+export const setDefaultPresetId = async (id: string | undefined) => {
+  if (id) {
+    await LocalStorage.setItem(DEFAULT_PRESET_KEY, id);
+  } else {
+    await LocalStorage.removeItem(DEFAULT_PRESET_KEY);
+  }
+};
+
+// Download settings for a preset, for commands that download without the full form
+export const getPresetDownloadSettings = (
+  preset: Preset,
+  outputPath: string,
+  filename?: FilenameSettings,
+): DownloadSettings => ({
+  downloadType: preset.downloadType,
+  videoQuality: preset.videoQuality,
+  mp3Quality: preset.mp3Quality,
+  compressionLevel: preset.compressionLevel,
+  compressionCrf: preset.compressionCrf,
+  targetSize: preset.targetSize || DEFAULT_TARGET_SIZE,
+  videoEncoder: getVideoEncoder(preset.downloadType, preset.videoEncoder),
+  encoderSpeed: preset.encoderSpeed || DEFAULT_ENCODER_SPEED,
+  audioBitrate: preset.audioBitrate || DEFAULT_AUDIO_BITRATE,
+  postProcessing: preset.postProcessing || DEFAULT_POST_PROCESSING,
+  outputPath,
+  filename,
+});
+
+// The first preset whose settings equal the given ones
+export const findMatchingPreset = (presets: Preset[], settings: PresetSettings): Preset | undefined =>
+  presets.find(
+    (preset) =>
+      preset.downloadType === settings.downloadType &&
+      preset.videoQuality === settings.videoQuality &&
+      preset.compressionLevel === settings.compressionLevel &&
+      preset.compressionCrf === settings.compressionCrf &&
+      (preset.targetSize || DEFAULT_TARGET_SIZE) === (settings.targetSize || DEFAULT_TARGET_SIZE) &&
+      preset.mp3Quality === settings.mp3Quality &&
+      getVideoEncoder(preset.downloadType, preset.videoEncoder) ===
+        getVideoEncoder(settings.downloadType, settings.videoEncoder) &&
+      (preset.encoderSpeed || DEFAULT_ENCODER_SPEED) === (settings.encoderSpeed || DEFAULT_ENCODER_SPEED) &&
+      (preset.audioBitrate || DEFAULT_AUDIO_BITRATE) === (settings.audioBitrate || DEFAULT_AUDIO_BITRATE) &&
+      isPostProcessingEqual(preset.postProcessing, settings.postProcessing),
+  );
+
+// Only the user's presets are exported; ids are left out since they mean nothing on another Mac
+export const exportPresets = async (): Promise<string> => {
+  const presets = (await getUserPresets()).map((preset) => ({
+    name: preset.name,
+    description: preset.description,
+    downloadType: preset.downloadType,
+    videoQuality: preset.videoQuality,
+    compressionLevel: preset.compressionLevel,
+    compressionCrf: preset.compressionCrf,
+    targetSize: preset.targetSize,
+    mp3Quality: preset.mp3Quality,
+    videoEncoder: preset.videoEncoder,
+    encoderSpeed: preset.encoderSpeed,
+    audioBitrate: preset.audioBitrate,
+    postProcessing: preset.postProcessing,
+  }));
+  return JSON.stringify({ version: EXPORT_VERSION, presets }, null, 2);
+};
+
+const COMPRESSION_LEVELS = ["none", "light", "medium", "high", "custom", "target"];
+const SPONSORBLOCK_MODES: SponsorBlockMode[] = ["off", "mark", "remove"];
+
+const optionalString = (value: unknown): string | undefined => (typeof value === "string" && value ? value : undefined);
+
+// Only the post-processing options this version knows, each falling back to its default
+const readPostProcessing = (value: unknown): PostProcessSettings | undefined => {
+  if (typeof value !== "object" || value === null) return undefined;
+  const item = value as Record<string, unknown>;
+  const flag = (key: "embedThumbnail" | "embedMetadata" | "embedChapters") =>
+    typeof item[key] === "boolean" ? item[key] : DEFAULT_POST_PROCESSING[key];
+  const categories = Array.isArray(item.sponsorBlockCategories)
+    ? item.sponsorBlockCategories.filter((category) =>
+        SPONSORBLOCK_CATEGORIES.some((known) => known.value === category),
+      )
+    : DEFAULT_POST_PROCESSING.sponsorBlockCategories;
+  return {
+    embedThumbnail: flag("embedThumbnail"),
+    embedMetadata: flag("embedMetadata"),
+    embedChapters: flag("embedChapters"),
+    sponsorBlock: SPONSORBLOCK_MODES.find((mode) => mode === item.sponsorBlock) || "off",
+    sponsorBlockCategories: categories,
+  };
+};
+
+// One entry of an exported file as a preset, or why it can't be imported
+const readImportedPreset = (value: unknown): Omit<Preset, "id"> | string => {
+  if (typeof value !== "object" || value === null) return "not a preset";
+  const item = value as Record<string, unknown>;
+  if (typeof item.name !== "string" || !item.name.trim()) return "no name";
+  const { downloadType, compressionLevel, targetSize, videoEncoder, encoderSpeed, audioBitrate } = item;
+  if (!DOWNLOAD_TYPES.some((type) => type.value === downloadType)) return `unknown download type ${downloadType}`;
+  if (compressionLevel !== undefined && !COMPRESSION_LEVELS.includes(compressionLevel as string)) {
+    return `unknown compression level ${compressionLevel}`;
+  }
+  if (targetSize !== undefined && !TARGET_SIZES.some((size) => size.value === targetSize)) {
+    return `unknown target size ${targetSize}`;
+  }
+  if (videoEncoder !== undefined && !Object.hasOwn(VIDEO_ENCODERS, videoEncoder as string)) {
+    return `unknown encoder ${videoEncoder}`;
+  }
+  if (encoderSpeed !== undefined && !ENCODER_SPEEDS.some((speed) => speed.value === encoderSpeed)) {
+    return `unknown encoder speed ${encoderSpeed}`;
+  }
+  if (audioBitrate !== undefined && !AUDIO_BITRATES.includes(audioBitrate as string)) {
+    return `unknown audio bitrate ${audioBitrate}`;
+  }
+  return {
+    name: item.name.trim(),
+    description: optionalString(item.description),
+    downloadType: downloadType as string,
+    videoQuality: optionalString(item.videoQuality) || "best",
+    compressionLevel: (compressionLevel as string | undefined) || "none",
+    compressionCrf: optionalString(item.compressionCrf) || "23",
+    targetSize: targetSize as string | undefined,
+    mp3Quality: optionalString(item.mp3Quality) || "5",
+    videoEncoder: videoEncoder as VideoEncoder | undefined,
+    encoderSpeed: encoderSpeed as EncoderSpeed | undefined,
+    audioBitrate: audioBitrate as string | undefined,
+    postProcessing: readPostProcessing(item.postProcessing),
+  };
+};
+
+// Reads an exported file. Entries this version can't use are listed in `skipped` with the reason,
+// e.g. `"4K AV1" (unknown encoder av2)`, instead of being stored as presets that fail to download.
+export const parsePresetsJson = (json: string): { presets: Omit<Preset, "id">[]; skipped: string[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("The text is not valid JSON.");
+  }
+  const list = Array.isArray(parsed) ? parsed : (parsed as { presets?: unknown })?.presets;
+  if (!Array.isArray(list)) throw new Error("No presets found. Expected an exported presets file.");
+
+  const presets: Omit<Preset, "id">[] = [];
+  const skipped: string[] = [];
+  list.forEach((item, index) => {
+    const preset = readImportedPreset(item);
+    if (typeof preset === "string") {
+      const name = typeof item?.name === "string" && item.name.trim() ? `"${item.name.trim()}"` : `Entry ${index + 1}`;
+      skipped.push(`${name} (${preset})`);
+    } else {
+      presets.push(preset);
+    }
+  });
+  return { presets, skipped };
+};
+
+// Adds presets from exported JSON. A preset with the same name as an existing one replaces it,
+// so re-importing a team's shared file updates everyone's copy instead of duplicating it.
+export const importPresets = async (json: string): Promise<{ imported: number; skipped: string[] }> => {
+  const { presets: imported, skipped } = parsePresetsJson(json);
+  if (imported.length === 0) {
+    throw new Error(`No valid presets found. Skipped ${skipped.join(", ") || "every entry"}.`);
+  }
+
+  const presets = await getUserPresets();
+  for (const item of imported) {
+    const existing = presets.find((preset) => preset.name === item.name);
+    const preset: Preset = { ...item, id: existing?.id || createPresetId() };
+    if (existing) {
+      presets[presets.indexOf(existing)] = preset;
+    } else {
+      presets.push(preset);
+    }
+  }
+  await saveUserPresets(presets);
+  return { imported: imported.length, skipped };
+};
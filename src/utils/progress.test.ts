@@ -0,0 +1,249 @@
+import { describe, expect, it } from "vitest";
+import {
+  createFfmpegProgressParser,
+  createProgressParser,
+  findOutputFile,
+  findVideoFiles,
+  parseDownloadLine,
+  parsePostprocessLine,
+} from "./progress";
+
+// Recorded with the arguments from buildProgressArgs, trimmed to the lines that matter
+const VIDEO_PROGRESS =
+  '[progress] avc1.640028 none {"status": "downloading", "downloaded_bytes": 5242880, "total_bytes": 20971520, "speed": 2097152.0, "eta": 7, "fragment_index": null, "fragment_count": null}';
+const AUDIO_FINISHED =
+  '[progress] none mp4a.40.2 {"status": "finished", "downloaded_bytes": 3145728, "total_bytes": 3145728, "speed": null, "eta": null}';
+const FRAGMENT_PROGRESS =
+  '[progress] avc1.4d401f mp4a.40.2 {"status": "downloading", "downloaded_bytes": 1048576, "total_bytes": null, "total_bytes_estimate": null, "speed": 524288.0, "eta": null, "fragment_index": 12, "fragment_count": 48}';
+
+const MERGED_DOWNLOAD = `[youtube] Extracting URL: https://www.youtube.com/watch?v=dQw4w9WgXcQ
+[info] dQw4w9WgXcQ: Downloading 1 format(s): 137+140
+[info] Writing video subtitles to: /Users/me/Downloads/Never Gonna Give You Up.en.vtt
+[download] Destination: /Users/me/Downloads/Never Gonna Give You Up.en.vtt
+[download] 100% of   45.12KiB in 00:00:00 at 512.33KiB/s
+[info] Writing video thumbnail 41 to: /Users/me/Downloads/Never Gonna Give You Up.webp
+[download] Destination: /Users/me/Downloads/Never Gonna Give You Up.f137.mp4
+[download] 100% of   78.32MiB in 00:00:12 at 6.21MiB/s
+[download] Destination: /Users/me/Downloads/Never Gonna Give You Up.f140.m4a
+[download] 100% of    3.27MiB in 00:00:01 at 2.94MiB/s
+[Merger] Merging formats into "/Users/me/Downloads/Never Gonna Give You Up.mp4"
+Deleting original file /Users/me/Downloads/Never Gonna Give You Up.f137.mp4 (pass -k to keep)
+Deleting original file /Users/me/Downloads/Never Gonna Give You Up.f140.m4a (pass -k to keep)
+[EmbedSubtitle] Embedding subtitles in "/Users/me/Downloads/Never Gonna Give You Up.mp4"
+Deleting original file /Users/me/Downloads/Never Gonna Give You Up.en.vtt (pass -k to keep)
+[EmbedThumbnail] ffmpeg: Adding thumbnail to "/Users/me/Downloads/Never Gonna Give You Up.mp4"
+`;
+
+const PLAYLIST_DOWNLOAD = `[youtube:tab] Extracting URL: https://www.youtube.com/playlist?list=PL123
+[download] Downloading playlist: Mix
+[youtube:tab] Playlist Mix: Downloading 2 items of 2
+[download] Downloading item 1 of 2
+[download] Destination: /Users/me/Downloads/Mix/01 - First.f22.mp4
+[Merger] Merging formats into "/Users/me/Downloads/Mix/01 - First.mp4"
+[download] Downloading item 2 of 2
+[download] /Users/me/Downloads/Mix/02 - Second.mp4 has already been downloaded
+[download] Finished downloading playlist: Mix
+`;
+
+const REMUXED_DOWNLOAD = `[download] Destination: /Users/me/Downloads/Clip.webm
+[download] 100% of   12.00MiB in 00:00:03 at 4.00MiB/s
+[VideoRemuxer] Remuxing video from webm to mkv; Destination: /Users/me/Downloads/Clip.mkv
+Deleting original file /Users/me/Downloads/Clip.webm (pass -k to keep)
+`;
+
+const CHAPTER_SPLIT = `[Merger] Merging formats into "/Users/me/Downloads/Album.mp4"
+[SplitChapters] Splitting video by chapters; 2 chapters found
+[SplitChapters] Chapter 001; Destination: /Users/me/Downloads/Album - 001 Intro [abc].mp4
+[SplitChapters] Chapter 002; Destination: /Users/me/Downloads/Album - 002 Outro [abc].mp4
+`;
+
+const AUDIO_EXTRACTION = `[download] Destination: /Users/me/Downloads/Song.webm
+[download] 100% of    4.10MiB in 00:00:01 at 3.80MiB/s
+[ExtractAudio] Destination: /Users/me/Downloads/Song.mp3
+Deleting original file /Users/me/Downloads/Song.webm (pass -k to keep)
+`;
+
+const FFMPEG_PROGRESS = `frame=120
+fps=60.00
+bitrate=1200.5kbits/s
+total_size=1048576
+out_time_us=5000000
+out_time=00:00:05.000000
+speed=2.5x
+progress=continue
+frame=240
+total_size=2097152
+out_time_us=10000000
+speed=2.5x
+progress=end
+`;
+
+describe("parseDownloadLine", () => {
+  it("reads a video stream's bytes, speed and ETA", () => {
+    expect(parseDownloadLine(VIDEO_PROGRESS)).toEqual({
+      phase: "download-video",
+      percentage: 25,
+      downloadedBytes: 5242880,
+      totalBytes: 20971520,
+      speed: 2097152,
+      eta: 7,
+      fragmentIndex: undefined,
+      fragmentCount: undefined,
+    });
+  });
+
+  it("marks a finished audio stream as complete", () => {
+    expect(parseDownloadLine(AUDIO_FINISHED)).toMatchObject({ phase: "download-audio", percentage: 100 });
+  });
+
+  it("falls back to fragments when the size isn't known", () => {
+    expect(parseDownloadLine(FRAGMENT_PROGRESS)).toMatchObject({
+      phase: "download",
+      percentage: 25,
+      fragmentIndex: 12,
+      fragmentCount: 48,
+      totalBytes: undefined,
+    });
+  });
+
+  it("ignores other lines and broken JSON", () => {
+    expect(parseDownloadLine("[download] 100% of   78.32MiB in 00:00:12 at 6.21MiB/s")).toBeNull();
+    expect(parseDownloadLine('[progress] avc1 none {"status": "downloading",')).toBeNull();
+  });
+});
+
+describe("parsePostprocessLine", () => {
+  it("tells merging and audio extraction from other post-processors", () => {
+    expect(parsePostprocessLine("[postprocess] started Merger")).toEqual({
+      phase: "merge",
+      percentage: 0,
+      postprocessor: "Merger",
+    });
+    expect(parsePostprocessLine("[postprocess] finished ExtractAudio")).toMatchObject({
+      phase: "extract-audio",
+      percentage: 100,
+    });
+    expect(parsePostprocessLine("[postprocess] started FFmpegEmbedThumbnail")).toMatchObject({
+      phase: "postprocess",
+      postprocessor: "FFmpegEmbedThumbnail",
+    });
+  });
+
+  it("ignores other lines", () => {
+    expect(parsePostprocessLine('[Merger] Merging formats into "a.mp4"')).toBeNull();
+  });
+});
+
+describe("createProgressParser", () => {
+  it("keeps a line split across chunks until it's complete", () => {
+    const parse = createProgressParser();
+    const splitAt = VIDEO_PROGRESS.indexOf('"total_bytes"');
+    expect(parse(VIDEO_PROGRESS.slice(0, splitAt))).toEqual([]);
+    expect(parse(`${VIDEO_PROGRESS.slice(splitAt)}\n${AUDIO_FINISHED.slice(0, 20)}`)).toEqual([
+      expect.objectContaining({ phase: "download-video", percentage: 25 }),
+    ]);
+    expect(parse(`${AUDIO_FINISHED.slice(20)}\r\n`)).toEqual([
+      expect.objectContaining({ phase: "download-audio", percentage: 100 }),
+    ]);
+  });
+
+  it("counts playlist items and tags later events with the current one", () => {
+    const parse = createProgressParser();
+    const events = parse(
+      ["[download] Downloading item 2 of 5", VIDEO_PROGRESS, "[postprocess] started Merger", ""].join("\n"),
+    );
+    expect(events).toEqual([
+      { phase: "download", percentage: 0, currentItem: 2, totalItems: 5 },
+      expect.objectContaining({ phase: "download-video", currentItem: 2, totalItems: 5 }),
+      expect.objectContaining({ phase: "merge", currentItem: 2, totalItems: 5 }),
+    ]);
+  });
+
+  it('accepts the older "Downloading video" wording', () => {
+    const parse = createProgressParser();
+    expect(parse("[download] Downloading video 3 of 4\n")).toEqual([
+      { phase: "download", percentage: 0, currentItem: 3, totalItems: 4 },
+    ]);
+  });
+});
+
+describe("createFfmpegProgressParser", () => {
+  it("reports each progress block against the known length", () => {
+    const parser = createFfmpegProgressParser("compress", 20);
+    const [first, last] = parser.parseStdout(FFMPEG_PROGRESS);
+    expect(first).toEqual({ phase: "compress", percentage: 25, downloadedBytes: 1048576, speed: 2.5, eta: 6 });
+    expect(last).toMatchObject({ percentage: 100, downloadedBytes: 2097152 });
+  });
+
+  it("reads the length from stderr when it isn't given", () => {
+    const parser = createFfmpegProgressParser("convert");
+    parser.parseStderr("  Duration: 00:00:40.00, start: 0.000000, bitrate: 1411 kb/s\n");
+    expect(parser.parseStdout(FFMPEG_PROGRESS)[0]).toMatchObject({ phase: "convert", percentage: 12.5, eta: 14 });
+  });
+
+  it("waits for blocks split across chunks", () => {
+    const parser = createFfmpegProgressParser("compress", 20);
+    const splitAt = FFMPEG_PROGRESS.indexOf("speed=");
+    expect(parser.parseStdout(FFMPEG_PROGRESS.slice(0, splitAt))).toEqual([]);
+    expect(parser.parseStdout(FFMPEG_PROGRESS.slice(splitAt))).toHaveLength(2);
+  });
+});
+
+describe("findOutputFile", () => {
+  it("prefers the merged file over the streams", () => {
+    expect(findOutputFile(MERGED_DOWNLOAD)).toBe("/Users/me/Downloads/Never Gonna Give You Up.mp4");
+  });
+
+  it("uses the extracted audio, remuxed video or last chapter", () => {
+    expect(findOutputFile(AUDIO_EXTRACTION)).toBe("/Users/me/Downloads/Song.mp3");
+    expect(findOutputFile(REMUXED_DOWNLOAD)).toBe("/Users/me/Downloads/Clip.mkv");
+    expect(findOutputFile(CHAPTER_SPLIT)).toBe("/Users/me/Downloads/Album - 002 Outro [abc].mp4");
+  });
+
+  it("falls back to a file that was already downloaded", () => {
+    expect(findOutputFile("[download] /Users/me/Downloads/Old.mp4 has already been downloaded\n")).toBe(
+      "/Users/me/Downloads/Old.mp4",
+    );
+  });
+
+  it("returns nothing for output without files", () => {
+    expect(findOutputFile("[youtube] Extracting URL: https://youtu.be/abc\n")).toBeUndefined();
+  });
+});
+
+describe("findVideoFiles", () => {
+  it("leaves out merged streams, subtitles and thumbnails", () => {
+    expect(findVideoFiles(MERGED_DOWNLOAD)).toEqual(["/Users/me/Downloads/Never Gonna Give You Up.mp4"]);
+  });
+
+  it("leaves out playlist entries that were already downloaded", () => {
+    expect(findVideoFiles(PLAYLIST_DOWNLOAD)).toEqual(["/Users/me/Downloads/Mix/01 - First.mp4"]);
+  });
+
+  it("replaces a remuxed file with its new container", () => {
+    expect(findVideoFiles(REMUXED_DOWNLOAD)).toEqual(["/Users/me/Downloads/Clip.mkv"]);
+  });
+
+  it("includes every chapter of a split", () => {
+    expect(findVideoFiles(CHAPTER_SPLIT)).toEqual([
+      "/Users/me/Downloads/Album.mp4",
+      "/Users/me/Downloads/Album - 001 Intro [abc].mp4",
+      "/Users/me/Downloads/Album - 002 Outro [abc].mp4",
+    ]);
+  });
+
+  it("returns only the chapters when splitting by chapters", () => {
+    expect(findVideoFiles(CHAPTER_SPLIT, true)).toEqual([
+      "/Users/me/Downloads/Album - 001 Intro [abc].mp4",
+      "/Users/me/Downloads/Album - 002 Outro [abc].mp4",
+    ]);
+  });
+
+  it("keeps the full video when a split found no chapters", () => {
+    expect(findVideoFiles(MERGED_DOWNLOAD, true)).toEqual(["/Users/me/Downloads/Never Gonna Give You Up.mp4"]);
+  });
+
+  it("finds nothing when a file was kept as it was", () => {
+    expect(findVideoFiles("[download] /Users/me/Downloads/Old.mp4 has already been downloaded\n")).toEqual([]);
+  });
+});
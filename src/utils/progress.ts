@@ -0,0 +1,313 @@
+import path from "path";
+import { playlistItemRegex } from "./playlist";
+
+export type ProgressPhase =
+  | "download" // a single file that holds both video and audio
+  | "download-video"
+  | "download-audio"
+  | "merge"
+  | "extract-audio"
+  | "postprocess"
+  | "compress"
+  | "convert" // a local file re-encoded or remuxed by Convert Local Files
+  | "burn-subtitles";
+
+export interface DownloadProgress {
+  phase: ProgressPhase;
+  percentage: number; // of the current phase
+  downloadedBytes?: number;
+  totalBytes?: number;
+  speed?: number; // bytes per second while downloading, times real time while encoding
+  eta?: number; // in seconds
+  fragmentIndex?: number;
+  fragmentCount?: number;
+  currentItem?: number;
+  totalItems?: number;
+  postprocessor?: string; // name of the running yt-dlp post-processor
+}
+
+// yt-dlp prints these instead of its progress bar: the codecs tell video from audio downloads,
+// and the progress dict is the same one its progress hooks receive
+const PROGRESS_PREFIX = "[progress]";
+const POSTPROCESS_PREFIX = "[postprocess]";
+
+export const buildProgressArgs = (): string[] => [
+  "--newline",
+  "--progress-template",
+  `download:${PROGRESS_PREFIX} %(info.vcodec)s %(info.acodec)s %(progress)j`,
+  "--progress-template",
+  `postprocess:${POSTPROCESS_PREFIX} %(progress.status)s %(progress.postprocessor)s`,
+];
+
+interface YtDlpProgress {
+  status?: string;
+  downloaded_bytes?: number | null;
+  total_bytes?: number | null;
+  total_bytes_estimate?: number | null;
+  speed?: number | null;
+  eta?: number | null;
+  fragment_index?: number | null;
+  fragment_count?: number | null;
+}
+
+const hasCodec = (codec: string) => codec !== "none" && codec !== "NA";
+
+const getDownloadPhase = (vcodec: string, acodec: string): ProgressPhase => {
+  if (hasCodec(vcodec) && !hasCodec(acodec)) return "download-video";
+  if (!hasCodec(vcodec) && hasCodec(acodec)) return "download-audio";
+  return "download";
+};
+
+const getPostprocessPhase = (postprocessor: string): ProgressPhase => {
+  if (/Merger/i.test(postprocessor)) return "merge";
+  if (/ExtractAudio/i.test(postprocessor)) return "extract-audio";
+  return "postprocess";
+};
+
+// Parses one "[progress] <vcodec> <acodec> <json>" line
+export const parseDownloadLine = (line: string): DownloadProgress | null => {
+  const match = line.match(/^\[progress\] (\S+) (\S+) (\{.*\})\s*$/);
+  if (!match) return null;
+  let progress: YtDlpProgress;
+  try {
+    progress = JSON.parse(match[3]);
+  } catch {
+    return null;
+  }
+
+  const downloadedBytes = progress.downloaded_bytes ?? undefined;
+  const totalBytes = progress.total_bytes ?? progress.total_bytes_estimate ?? undefined;
+  const { fragment_index: fragmentIndex, fragment_count: fragmentCount } = progress;
+  let percentage = 0;
+  if (progress.status === "finished") {
+    percentage = 100;
+  } else if (downloadedBytes !== undefined && totalBytes) {
+    percentage = (downloadedBytes / totalBytes) * 100;
+  } else if (fragmentIndex && fragmentCount) {
+    percentage = (fragmentIndex / fragmentCount) * 100;
+  }
+
+  return {
+    phase: getDownloadPhase(match[1], match[2]),
+    percentage: Math.min(100, percentage),
+    downloadedBytes,
+    totalBytes,
+    speed: progress.speed ?? undefined,
+    eta: progress.eta ?? undefined,
+    fragmentIndex: fragmentIndex ?? undefined,
+    fragmentCount: fragmentCount ?? undefined,
+  };
+};
+
+// Parses one "[postprocess] <status> <name>" line
+export const parsePostprocessLine = (line: string): DownloadProgress | null => {
+  const match = line.match(/^\[postprocess\] (\w+) (\S+)/);
+  if (!match) return null;
+  return {
+    phase: getPostprocessPhase(match[2]),
+    percentage: match[1] === "finished" ? 100 : 0,
+    postprocessor: match[2],
+  };
+};
+
+// Returns a parser for yt-dlp output chunks. Chunks can end mid-line, so the unfinished
+// tail is kept until the rest arrives; the current playlist item is remembered too.
+export const createProgressParser = () => {
+  let buffer = "";
+  let currentItem = 0;
+  let totalItems = 0;
+
+  return (chunk: string): DownloadProgress[] => {
+    buffer += chunk;
+    const lines = buffer.split(/\r?\n|\r/);
+    buffer = lines.pop() || "";
+
+    const events: DownloadProgress[] = [];
+    for (const line of lines) {
+      const itemMatch = playlistItemRegex.exec(line);
+      if (itemMatch?.groups) {
+        currentItem = parseInt(itemMatch.groups.current);
+        totalItems = parseInt(itemMatch.groups.total);
+        events.push({ phase: "download", percentage: 0, currentItem, totalItems });
+        continue;
+      }
+      const event = parseDownloadLine(line) || parsePostprocessLine(line);
+      if (event) events.push(totalItems > 0 ? { ...event, currentItem, totalItems } : event);
+    }
+    return events;
+  };
+};
+
+// Parses ffmpeg's "-progress pipe:1" key=value blocks, given the media length for the percentage.
+// The length comes from the "Duration:" line ffmpeg prints to stderr when it isn't known up front.
+export const createFfmpegProgressParser = (phase: ProgressPhase, duration?: number) => {
+  let buffer = "";
+  let total = duration;
+  let block: Record<string, string> = {};
+
+  return {
+    parseStderr: (chunk: string) => {
+      const match = chunk.match(/Duration: (\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+      if (match && !total) total = parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + parseFloat(match[3]);
+    },
+    parseStdout: (chunk: string): DownloadProgress[] => {
+      buffer += chunk;
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || "";
+
+      const events: DownloadProgress[] = [];
+      for (const line of lines) {
+        const [key, value] = line.split("=", 2).map((part) => part?.trim());
+        if (!key || value === undefined) continue;
+        block[key] = value;
+        // Every block ends with a progress line
+        if (key !== "progress") continue;
+
+        const processed = parseInt(block.out_time_us || block.out_time_ms || "0") / 1000000;
+        const speed = parseFloat(block.speed) || undefined;
+        const percentage = value === "end" ? 100 : total ? Math.min(100, (processed / total) * 100) : 0;
+        events.push({
+          phase,
+          percentage,
+          downloadedBytes: parseInt(block.total_size) || undefined,
+          speed,
+          eta: total && speed ? Math.max(0, (total - processed) / speed) : undefined,
+        });
+        block = {};
+      }
+      return events;
+    },
+  };
+};
+
+const phaseLabels: Record<ProgressPhase, string> = {
+  download: "Downloading",
+  "download-video": "Downloading video",
+  "download-audio": "Downloading audio",
+  merge: "Merging video and audio",
+  "extract-audio": "Converting audio",
+  postprocess: "Post-processing",
+  compress: "Compressing",
+  convert: "Converting",
+  "burn-subtitles": "Burning in subtitles",
+};
+
+// "FFmpegEmbedThumbnail" becomes "Embed Thumbnail"
+const formatPostprocessorName = (name: string): string =>
+  name
+    .replace(/^FFmpeg/, "")
+    .replace(/PP$/, "")
+    .replace(/([a-z])([A-Z])/g, "$1 $2");
+
+const formatEta = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60)
+    .toString()
+    .padStart(2, "0")}`;
+};
+
+// What the job is doing right now, e.g. "Downloading audio" or "Embed Thumbnail"
+export const getPhaseLabel = (progress: DownloadProgress): string =>
+  progress.phase === "postprocess" && progress.postprocessor
+    ? formatPostprocessorName(progress.postprocessor)
+    : phaseLabels[progress.phase];
+
+export const formatProgressMessage = (progress: DownloadProgress): string => {
+  const { phase, percentage, downloadedBytes, totalBytes, speed, eta, currentItem, totalItems } = progress;
+  const isDownload = phase.startsWith("download");
+  const isEncode = phase === "compress" || phase === "convert" || phase === "burn-subtitles";
+  const label = getPhaseLabel(progress);
+
+  let progressMsg = isDownload || isEncode ? `${label}... ${percentage.toFixed(1)}%` : `${label}...`;
+
+  if (currentItem && totalItems) {
+    // Each finished entry counts fully, the current one by its own percentage
+    const overall = ((currentItem - 1 + (isDownload ? percentage : 100) / 100) / totalItems) * 100;
+    progressMsg = `Overall ${overall.toFixed(0)}% | ${progressMsg}`;
+  }
+
+  if (speed && isDownload) {
+    progressMsg += ` | ${(speed / 1024 / 1024).toFixed(1)} MB/s`;
+  } else if (speed && isEncode) {
+    progressMsg += ` | ${speed.toFixed(1)}x`;
+  }
+
+  if (eta && eta > 0 && eta < 3600) {
+    // Only show ETA if less than 1 hour
+    progressMsg += ` | ETA ${formatEta(eta)}`;
+  }
+
+  if (isDownload && downloadedBytes && totalBytes) {
+    progressMsg += ` | ${(downloadedBytes / 1024 / 1024).toFixed(1)}/${(totalBytes / 1024 / 1024).toFixed(1)} MB`;
+  }
+
+  return progressMsg;
+};
+
+const lastMatch = (output: string, pattern: RegExp): string | undefined => {
+  const matches = [...output.matchAll(pattern)];
+  return matches.length > 0 ? matches[matches.length - 1][1].trim() : undefined;
+};
+
+// Finds the file yt-dlp finally wrote: the merge or extraction target wins over the raw download
+export const findOutputFile = (output: string): string | undefined => {
+  const patterns = [
+    /\[SplitChapters\] Chapter \d+; Destination: (.*)/g,
+    /\[VideoRemuxer\] Remuxing video from \w+ to \w+; Destination: (.*)/g,
+    /\[Merger\] Merging formats into "(.*)"/g,
+    /\[ExtractAudio\] Destination: (.*)/g,
+    /\[download\] (.*) has already been downloaded/g,
+    /\[download\] Destination: (.*)/g,
+  ];
+  for (const pattern of patterns) {
+    const file = lastMatch(output, pattern);
+    if (file) return file;
+  }
+  return undefined;
+};
+
+// Subtitles and thumbnails are downloaded too, then converted, embedded or deleted by yt-dlp itself
+const SIDECAR_EXTENSIONS = /\.(vtt|srt|ass|ssa|lrc|ttml|sbv|dfxp|srv[123]|json3?|jpe?g|png|webp)$/i;
+
+// Every video file this run finished, e.g. one per playlist entry. The separate streams that were merged,
+// subtitles, thumbnails and files that had already been downloaded (and so were kept as they are) are left out.
+// With `splitChapters`, only the chapters are returned; the full video stays next to them as it was downloaded.
+export const findVideoFiles = (output: string, splitChapters = false): string[] => {
+  const chapters = [...output.matchAll(/\[SplitChapters\] Chapter \d+; Destination: (.*)/g)].map((match) =>
+    match[1].trim(),
+  );
+  if (splitChapters && chapters.length > 0) return chapters;
+  const files = new Set<string>();
+  for (const match of output.matchAll(/\[Merger\] Merging formats into "(.*)"/g)) files.add(match[1].trim());
+  for (const match of output.matchAll(/\[download\] Destination: (.*)/g)) {
+    const file = match[1].trim();
+    // Streams waiting to be merged are named like "Title.f137.mp4"
+    if (!/\.f[\w-]+\.\w+$/.test(file) && !SIDECAR_EXTENSIONS.test(file)) files.add(file);
+  }
+  // A remuxed file replaces the one it was made from
+  for (const match of output.matchAll(/\[VideoRemuxer\] Remuxing video from \w+ to \w+; Destination: (.*)/g)) {
+    const file = match[1].trim();
+    const base = file.replace(/\.\w+$/, "");
+    [...files].filter((other) => other.replace(/\.\w+$/, "") === base).forEach((other) => files.delete(other));
+    files.add(file);
+  }
+  chapters.forEach((file) => files.add(file));
+  return [...files];
+};
+
+// Builds the "saved to" line shown once a download completes
+export const describeSavedFile = (output: string, finalExtension: string, outputPath: string): string => {
+  let downloadedFileName = "your file";
+  const destMatch = output.match(/\[(?:download|ExtractAudio)\] Destination: (.*)/i);
+  if (destMatch && destMatch[1]) {
+    downloadedFileName = path.basename(destMatch[1].trim());
+  } else {
+    const titleMatch = output.match(/\[info\] (.*?)\[/s);
+    if (titleMatch && titleMatch[1]) {
+      downloadedFileName = titleMatch[1].trim().split("\n")[0] + "." + finalExtension;
+    } else {
+      downloadedFileName = "Downloaded_File." + finalExtension;
+    }
+  }
+  return `${downloadedFileName} saved to ${path.basename(outputPath)}.`;
+};
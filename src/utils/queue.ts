@@ -0,0 +1,567 @@
+import { LocalStorage, getPreferenceValues } from "@raycast/api";
+import { execa, ResultPromise } from "execa";
+import fs from "fs";
+import path from "path";
+import { DownloadSettings, buildDownloadArgs, getCrfValue } from "./download";
+import {
+  DEFAULT_TARGET_SIZE,
+  buildAudioEncoderArgs,
+  buildVideoEncoderArgs,
+  getVideoContainer,
+  getVideoEncoder,
+  isVideoOnlyType,
+} from "./codecs";
+import { getFfmpegLocation } from "./binaries";
+import { buildCookieArgs } from "./cookies";
+import { DownloadErrorKind, describeDownloadError, isTransientDownloadError } from "./errors";
+import { compressVideo } from "./ffmpeg";
+import { withUniqueOutput } from "./filename";
+import { addHistoryEntry, isInsideFolder } from "./history";
+import { buildNetworkArgs } from "./network";
+import {
+  DownloadProgress,
+  createProgressParser,
+  describeSavedFile,
+  findOutputFile,
+  findVideoFiles,
+  formatProgressMessage,
+} from "./progress";
+import { findRemedy, formatTriedRemedies } from "./remediation";
+import { burnSubtitles } from "./subtitles";
+import { encodeToTargetSize } from "./target-size";
+
+export type JobState = "queued" | "running" | "paused" | "failed" | "done";
+
+export interface DownloadJob {
+  id: string;
+  url: string;
+  title: string;
+  settings: DownloadSettings;
+  duration?: number; // media length in seconds, when known up front
+  state: JobState;
+  progress?: DownloadProgress;
+  message?: string; // progress line while running, result or error afterwards
+  errorDetails?: string;
+  errorKind?: DownloadErrorKind;
+  remedies?: string[]; // what was changed after failed attempts, e.g. "720p instead of 1080p"
+  cancelled?: boolean;
+  outputFile?: string;
+  pid?: number; // yt-dlp or ffmpeg process id, so any command can stop or check on the job
+  args?: string[]; // yt-dlp arguments of the first attempt, reused so later attempts continue the same files
+  partialFiles?: string[]; // files yt-dlp started writing, kept until the job finishes or is cancelled
+  attempts?: number; // automatic retries made so far
+  retryAt?: number; // a queued job waits until then before its next attempt
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+interface QueuePreferences {
+  maxConcurrentDownloads?: string;
+  autoRetries?: string;
+  retryDelay?: string;
+}
+
+const JOBS_KEY = "download-queue";
+// Progress is persisted at most this often; in-process listeners get every update
+const PROGRESS_WRITE_INTERVAL = 1000;
+// A job that was just claimed has no pid yet; don't mistake it for an interrupted one
+const START_GRACE_PERIOD = 10000;
+// Backoff doubles with every attempt but never waits longer than this
+const MAX_RETRY_DELAY = 600000;
+// How often a waiting command checks the stored queue, since another command may run or finish the job
+const WAIT_POLL_INTERVAL = 3000;
+
+const activeProcesses = new Map<string, ResultPromise>();
+const listeners = new Set<(job: DownloadJob) => void>();
+let pendingMutation: Promise<unknown> = Promise.resolve();
+let retryTimer: NodeJS.Timeout | undefined;
+
+const getConcurrency = (): number => {
+  const { maxConcurrentDownloads } = getPreferenceValues<QueuePreferences>();
+  return Math.max(1, parseInt(maxConcurrentDownloads || "2") || 1);
+};
+
+const getRetryPolicy = () => {
+  const { autoRetries, retryDelay } = getPreferenceValues<QueuePreferences>();
+  return {
+    maxRetries: Math.max(0, parseInt(autoRetries || "3") || 0),
+    baseDelay: Math.max(1, parseInt(retryDelay || "30") || 30) * 1000,
+  };
+};
+
+const formatDelay = (ms: number): string =>
+  ms >= 60000 ? `${Math.round(ms / 60000)} min` : `${Math.round(ms / 1000)} s`;
+
+const isProcessAlive = (pid?: number): boolean => {
+  if (!pid) return false;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const notify = (job: DownloadJob) => listeners.forEach((listener) => listener(job));
+
+export const subscribeToJobs = (listener: (job: DownloadJob) => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// Resolves once the job is done, has failed or was paused, or with undefined once it was removed; call it before the
+// queue starts the job. Updates from this process arrive right away, while one that another command runs is noticed
+// by polling the stored queue, which calls `onPoll` for as long as the job hasn't finished.
+export const waitForJob = (id: string, onPoll?: () => void): Promise<DownloadJob | undefined> =>
+  new Promise((resolve) => {
+    const unsubscribe = subscribeToJobs((job) => {
+      if (job.id === id && job.state !== "queued" && job.state !== "running") finish(job);
+    });
+    const poll = setInterval(async () => {
+      const job = (await getJobs()).find((j) => j.id === id);
+      if (!job) {
+        finish(undefined);
+      } else if (job.state !== "queued" && job.state !== "running") {
+        // Passed on to the other listeners too, such as the toast following the job
+        notify(job);
+      } else {
+        onPoll?.();
+      }
+    }, WAIT_POLL_INTERVAL);
+    const finish = (job: DownloadJob | undefined) => {
+      clearInterval(poll);
+      unsubscribe();
+      resolve(job);
+    };
+  });
+
+export const getJobs = async (): Promise<DownloadJob[]> => {
+  const stored = await LocalStorage.getItem<string>(JOBS_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return [];
+  }
+};
+
+// Serialises read-modify-write cycles so concurrent progress updates don't clobber each other
+const mutateJobs = <T>(mutate: (jobs: DownloadJob[]) => T): Promise<T> => {
+  const run = pendingMutation.then(async () => {
+    const jobs = await getJobs();
+    const result = mutate(jobs);
+    await LocalStorage.setItem(JOBS_KEY, JSON.stringify(jobs));
+    return result;
+  });
+  pendingMutation = run.catch(() => undefined);
+  return run;
+};
+
+// Progress and process updates are written from output callbacks that can't wait for them; a failed
+// write only loses that update, since the next one replaces it
+const logStorageError = (error: unknown) => console.error("Couldn't save the download queue:", error);
+
+const updateJob = async (id: string, patch: Partial<DownloadJob>): Promise<DownloadJob | undefined> => {
+  const updated = await mutateJobs((jobs) => {
+    const job = jobs.find((j) => j.id === id);
+    if (job) Object.assign(job, patch);
+    return job && { ...job };
+  });
+  if (updated) notify(updated);
+  return updated;
+};
+
+export const enqueueDownload = async (
+  url: string,
+  title: string,
+  settings: DownloadSettings,
+  duration?: number,
+): Promise<DownloadJob> => {
+  const job: DownloadJob = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    url,
+    title,
+    settings,
+    duration,
+    state: "queued",
+    message: "Waiting in queue...",
+    createdAt: Date.now(),
+  };
+  await mutateJobs((jobs) => jobs.push(job));
+  notify(job);
+  return job;
+};
+
+// Kills the job's yt-dlp process, whether this command or another one started it
+const stopProcess = (job: DownloadJob) => {
+  const subprocess = activeProcesses.get(job.id);
+  if (subprocess) {
+    subprocess.kill();
+  } else if (isProcessAlive(job.pid)) {
+    process.kill(job.pid as number);
+  }
+};
+
+const stopJob = async (id: string, patch: Partial<DownloadJob>) => {
+  const job = (await getJobs()).find((j) => j.id === id);
+  if (!job) return;
+  // Record the new state first so the runner knows the process was stopped on purpose
+  await updateJob(id, { ...patch, pid: undefined, progress: undefined });
+  if (job.state === "running") stopProcess(job);
+};
+
+// Removes the .part, fragment and .ytdl files yt-dlp leaves next to an unfinished download
+const deletePartialFiles = async (job: DownloadJob) => {
+  for (const file of job.partialFiles || []) {
+    const dir = path.dirname(file);
+    const base = path.basename(file);
+    try {
+      const names = await fs.promises.readdir(dir);
+      const leftovers = names.filter((name) => name.startsWith(`${base}.part`) || name === `${base}.ytdl`);
+      await Promise.all(leftovers.map((name) => fs.promises.rm(path.join(dir, name), { force: true })));
+    } catch {
+      // The folder is gone, so there is nothing left to clean up
+    }
+  }
+};
+
+export const cancelJob = async (id: string) => {
+  const job = (await getJobs()).find((j) => j.id === id);
+  await stopJob(id, {
+    state: "failed",
+    cancelled: true,
+    message: "Download was cancelled by the user.",
+    errorDetails: undefined,
+    partialFiles: undefined,
+    retryAt: undefined,
+    finishedAt: Date.now(),
+  });
+  if (job) await deletePartialFiles(job);
+};
+
+// yt-dlp continues from the partial file when a paused job is resumed
+export const pauseJob = (id: string) => stopJob(id, { state: "paused", message: "Paused" });
+
+export const resumeJob = (id: string) => updateJob(id, { state: "queued", message: "Waiting in queue..." });
+
+// Also starts a job that is waiting for its automatic retry straight away
+export const retryJob = (id: string) =>
+  updateJob(id, {
+    state: "queued",
+    message: "Waiting in queue...",
+    cancelled: false,
+    errorDetails: undefined,
+    errorKind: undefined,
+    remedies: undefined,
+    attempts: 0,
+    retryAt: undefined,
+    finishedAt: undefined,
+  });
+
+export const removeJob = async (id: string) => {
+  const job = (await getJobs()).find((j) => j.id === id);
+  await stopJob(id, {});
+  await mutateJobs((jobs) => jobs.splice(0, jobs.length, ...jobs.filter((j) => j.id !== id)));
+  if (job && job.state !== "done") await deletePartialFiles(job);
+};
+
+export const clearFinishedJobs = () =>
+  mutateJobs((jobs) => jobs.splice(0, jobs.length, ...jobs.filter((j) => j.state !== "done")));
+
+// Moves a job up (negative offset) or down in the queue, which decides what starts next
+export const moveJob = (id: string, offset: number) =>
+  mutateJobs((jobs) => {
+    const from = jobs.findIndex((j) => j.id === id);
+    const to = Math.min(Math.max(from + offset, 0), jobs.length - 1);
+    if (from < 0 || from === to) return;
+    const [job] = jobs.splice(from, 1);
+    jobs.splice(to, 0, job);
+  });
+
+// Asks yt-dlp which file the job will write and moves it to a free "name (2)" when that file exists.
+// Returns null when the job was stopped while yt-dlp was being asked.
+const avoidCollision = async (job: DownloadJob, ytDlpPath: string, args: string[], finalExtension: string) => {
+  const lookup = execa(ytDlpPath, [...args, ...buildNetworkArgs(), ...buildCookieArgs(), "--print", "filename"], {
+    timeout: 120000,
+  });
+  activeProcesses.set(job.id, lookup);
+  await updateJob(job.id, { pid: lookup.pid, message: "Checking for existing files..." });
+  try {
+    const { stdout } = await lookup;
+    return withUniqueOutput(args, stdout.trim().split("\n").pop() || "", finalExtension);
+  } catch (error) {
+    const current = (await getJobs()).find((j) => j.id === job.id);
+    if (!current || current.state !== "running") return null;
+    // The download itself will report whatever went wrong
+    console.error("Error looking up file name:", error);
+    return args;
+  }
+};
+
+// `only` is passed on to processQueue once the job ends, see there
+const runJob = async (job: DownloadJob, ytDlpPath: string, ffmpegPath: string, only?: string) => {
+  const built = buildDownloadArgs(job.url, job.settings, await getFfmpegLocation(ffmpegPath));
+  const { finalExtension } = built;
+  let { args } = built;
+  const { filename, playlist, splitChapters } = job.settings;
+  if (job.args) {
+    // Overwriting would throw away the partial data this attempt is meant to continue from
+    args = job.args.map((arg) => (arg === "--force-overwrites" ? "--continue" : arg));
+  } else {
+    // Playlists and chapters write many files, so only single files get a numbered name
+    if (filename?.collisionPolicy === "suffix" && !playlist && !splitChapters) {
+      const uniqueArgs = await avoidCollision(job, ytDlpPath, args, finalExtension);
+      if (!uniqueArgs) {
+        activeProcesses.delete(job.id);
+        processQueue(ytDlpPath, ffmpegPath, only);
+        return;
+      }
+      args = uniqueArgs;
+    }
+    await updateJob(job.id, { args });
+  }
+  const partialFiles = new Set(job.partialFiles);
+  const parseProgress = createProgressParser();
+  let fullOutput = "";
+  let lastWrite = 0;
+  let pid: number | undefined;
+
+  // Listeners in this command get every event, the stored job only about once a second
+  const reportProgress = (progress: DownloadProgress) => {
+    const message = formatProgressMessage(progress);
+    if (Date.now() - lastWrite >= PROGRESS_WRITE_INTERVAL || progress.phase !== job.progress?.phase) {
+      lastWrite = Date.now();
+      job.progress = progress;
+      updateJob(job.id, { progress, message }).catch(logStorageError);
+    } else {
+      notify({ ...job, state: "running", pid, progress, message });
+    }
+  };
+
+  // Post-processing steps run their own ffmpeg, which must be stoppable like yt-dlp
+  const trackProcess = (subprocess: ResultPromise) => {
+    activeProcesses.set(job.id, subprocess);
+    pid = subprocess.pid;
+    updateJob(job.id, { pid }).catch(logStorageError);
+  };
+
+  // Connection settings and cookies are looked up on every attempt so updated preferences reach queued jobs
+  const subprocess = execa(ytDlpPath, [...args, ...buildNetworkArgs(), ...buildCookieArgs()], { timeout: 900000 });
+  activeProcesses.set(job.id, subprocess);
+  pid = subprocess.pid;
+  await updateJob(job.id, { pid });
+
+  const streamOutput = (chunk: Buffer | string) => {
+    const data = chunk.toString();
+    fullOutput += data;
+
+    const destinations = [...data.matchAll(/\[download\] Destination: (.*)/g)].map((match) => match[1].trim());
+    if (destinations.some((file) => !partialFiles.has(file))) {
+      destinations.forEach((file) => partialFiles.add(file));
+      updateJob(job.id, { partialFiles: [...partialFiles] }).catch(logStorageError);
+    }
+
+    parseProgress(data).forEach(reportProgress);
+  };
+  subprocess.stdout?.on("data", streamOutput);
+  subprocess.stderr?.on("data", streamOutput);
+
+  try {
+    await subprocess;
+    const outputFile = findOutputFile(fullOutput);
+    const { downloadType, subtitles, compressionLevel, compressionCrf, encoderSpeed } = job.settings;
+    const container = getVideoContainer(downloadType);
+    const encoder = getVideoEncoder(downloadType, job.settings.videoEncoder);
+    const crf = getCrfValue(compressionLevel, compressionCrf, encoder);
+    // A clip is shorter than the video, so ffmpeg reports its length instead
+    const duration = job.settings.clip ? undefined : job.duration;
+    const ffmpegOptions = { duration, onProgress: reportProgress, onSpawn: trackProcess };
+    const burnsSubtitles = subtitles?.mode === "burn" && !job.settings.playlist && !job.settings.splitChapters;
+    const fitsTargetSize = !!container && compressionLevel === "target";
+    // Playlist entries and chapters are processed one by one and counted in the progress
+    const reportFileProgress = (index: number, count: number) => (progress: DownloadProgress) =>
+      reportProgress(count > 1 ? { ...progress, currentItem: index + 1, totalItems: count } : progress);
+    if (burnsSubtitles && outputFile) {
+      const videoArgs = buildVideoEncoderArgs("v", encoder, crf, encoderSpeed, container);
+      await burnSubtitles(ffmpegPath, outputFile, subtitles.languages[0], videoArgs, ffmpegOptions);
+    } else if (container && compressionLevel !== "none" && !fitsTargetSize) {
+      // Burning in subtitles already re-encodes at this CRF; otherwise every finished video is compressed
+      const videoFiles = findVideoFiles(fullOutput, job.settings.splitChapters);
+      for (const [index, file] of videoFiles.entries()) {
+        const videoArgs = buildVideoEncoderArgs("v:0", encoder, crf, encoderSpeed, container);
+        const audioArgs = isVideoOnlyType(downloadType) ? [] : buildAudioEncoderArgs(container);
+        await compressVideo(ffmpegPath, file, videoArgs, audioArgs, {
+          // Chapters and playlist entries have their own length, so ffmpeg reports it instead
+          duration: videoFiles.length === 1 ? duration : undefined,
+          onProgress: reportFileProgress(index, videoFiles.length),
+          onSpawn: trackProcess,
+        });
+      }
+    }
+    if (fitsTargetSize) {
+      // Each file gets the whole size budget, and burned-in subtitles are kept since they're part of the picture
+      const videoFiles = findVideoFiles(fullOutput, job.settings.splitChapters);
+      for (const [index, file] of videoFiles.entries()) {
+        const targetSettings = {
+          targetSize: job.settings.targetSize || DEFAULT_TARGET_SIZE,
+          encoder,
+          speed: encoderSpeed,
+          container,
+          videoOnly: isVideoOnlyType(downloadType),
+        };
+        await encodeToTargetSize(ffmpegPath, file, file, targetSettings, {
+          duration: videoFiles.length === 1 ? duration : undefined,
+          onProgress: reportFileProgress(index, videoFiles.length),
+          onSpawn: trackProcess,
+        });
+      }
+    }
+    let { title } = job;
+    if (outputFile) {
+      // Playlists and chapters go into a folder of their own, which is kept instead of a single file. When
+      // yt-dlp reported no files in one (e.g. a video without chapters), the file stays; never the output folder.
+      const folder = path.dirname(outputFile);
+      const savedPath =
+        (job.settings.playlist || job.settings.splitChapters) && isInsideFolder(folder, job.settings.outputPath)
+          ? folder
+          : outputFile;
+      // Batch downloads are queued before their titles are known, so they are named after what was saved
+      if (title === job.url) title = path.basename(savedPath, savedPath === outputFile ? path.extname(outputFile) : "");
+      await addHistoryEntry({
+        url: job.url,
+        title,
+        path: savedPath,
+        settings: job.settings,
+        duration: job.duration,
+      });
+    }
+    await updateJob(job.id, {
+      state: "done",
+      title,
+      pid: undefined,
+      partialFiles: undefined,
+      retryAt: undefined,
+      outputFile,
+      message: job.settings.playlist
+        ? `Playlist saved to ${job.settings.playlist.title}.`
+        : describeSavedFile(fullOutput, finalExtension, job.settings.outputPath),
+      finishedAt: Date.now(),
+    });
+  } catch (error) {
+    const current = (await getJobs()).find((j) => j.id === job.id);
+    // Paused, cancelled and removed jobs were stopped on purpose and already carry their new state
+    if (current && current.state === "running") {
+      console.error("Download error:", error);
+      const { kind, cancelled, message, details } = describeDownloadError(error, fullOutput, ytDlpPath);
+      const remedies = current.remedies || [];
+      // Remedies change how the download is made, so they start right away instead of waiting out a backoff
+      const remedy = cancelled ? undefined : findRemedy(kind, current.settings, current.args, remedies);
+      if (remedy) {
+        await updateJob(job.id, {
+          state: "queued",
+          pid: undefined,
+          progress: undefined,
+          settings: { ...current.settings, ...remedy.settings },
+          args: remedy.args,
+          remedies: [...remedies, remedy.description],
+          message: `${message} Retrying with ${remedy.description}...`,
+          errorDetails: details,
+        });
+        return;
+      }
+      const attempts = (current.attempts || 0) + 1;
+      const { maxRetries, baseDelay } = getRetryPolicy();
+      if (!cancelled && attempts <= maxRetries && isTransientDownloadError(error, fullOutput)) {
+        const delay = Math.min(baseDelay * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+        await updateJob(job.id, {
+          state: "queued",
+          pid: undefined,
+          progress: undefined,
+          attempts,
+          retryAt: Date.now() + delay,
+          message: `${message} Retrying in ${formatDelay(delay)} (retry ${attempts} of ${maxRetries}).`,
+          errorDetails: details,
+        });
+        return;
+      }
+      const tried = formatTriedRemedies(remedies);
+      await updateJob(job.id, {
+        state: "failed",
+        pid: undefined,
+        cancelled,
+        errorKind: kind,
+        message: tried ? `${message} ${tried}` : message,
+        errorDetails: cancelled ? undefined : tried ? `${tried}\n\n${details}` : details,
+        finishedAt: Date.now(),
+      });
+    }
+  } finally {
+    activeProcesses.delete(job.id);
+    processQueue(ytDlpPath, ffmpegPath, only);
+  }
+};
+
+// runJob handles download errors itself; this catches anything else (such as a storage write failing)
+// so the job doesn't stay "running" forever
+const failStartedJob = async (id: string, error: unknown, ytDlpPath: string, ffmpegPath: string, only?: string) => {
+  console.error("Download job error:", error);
+  activeProcesses.delete(id);
+  const { kind, message, details } = describeDownloadError(error, "", ytDlpPath);
+  await updateJob(id, {
+    state: "failed",
+    pid: undefined,
+    errorKind: kind,
+    message,
+    errorDetails: details,
+    finishedAt: Date.now(),
+  }).catch(() => undefined);
+  processQueue(ytDlpPath, ffmpegPath, only);
+};
+
+// Starts queued jobs until the configured number of downloads is running. With `only`, just that job is started
+// (and restarted for its retries), for commands that exit once their own download is over.
+export const processQueue = async (ytDlpPath: string, ffmpegPath: string, only?: string) => {
+  const started = await mutateJobs((jobs) => {
+    for (const job of jobs) {
+      const justStarted = job.startedAt && Date.now() - job.startedAt < START_GRACE_PERIOD && !job.pid;
+      // The command that ran it was closed; queue it again so it continues from its partial files
+      if (job.state === "running" && !activeProcesses.has(job.id) && !justStarted && !isProcessAlive(job.pid)) {
+        job.state = "queued";
+        job.message = "Interrupted, resuming...";
+        job.pid = undefined;
+        job.progress = undefined;
+      }
+    }
+
+    const slots = getConcurrency() - jobs.filter((j) => j.state === "running").length;
+    const next = jobs
+      .filter((j) => j.state === "queued" && (!only || j.id === only) && (!j.retryAt || j.retryAt <= Date.now()))
+      .slice(0, Math.max(0, slots));
+    for (const job of next) {
+      job.state = "running";
+      job.progress = undefined;
+      job.message = "Starting download...";
+      job.startedAt = Date.now();
+      job.retryAt = undefined;
+    }
+    return next.map((job) => ({ ...job }));
+  });
+
+  // Wake up for the next job that is waiting out its backoff
+  const waiting = (await getJobs()).filter(
+    (job) => job.state === "queued" && (!only || job.id === only) && job.retryAt,
+  );
+  clearTimeout(retryTimer);
+  if (waiting.length > 0) {
+    const nextRetry = Math.min(...waiting.map((job) => job.retryAt as number));
+    retryTimer = setTimeout(() => processQueue(ytDlpPath, ffmpegPath, only), Math.max(0, nextRetry - Date.now()) + 100);
+  }
+
+  for (const job of started) {
+    notify(job);
+    runJob(job, ytDlpPath, ffmpegPath, only).catch((error) =>
+      failStartedJob(job.id, error, ytDlpPath, ffmpegPath, only),
+    );
+  }
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { DownloadSettings, PLAYER_CLIENTS } from "./download";
+import { findRemedy, formatTriedRemedies } from "./remediation";
+
+const settings: DownloadSettings = {
+  downloadType: "mp4_video_audio",
+  videoQuality: "1080p",
+  mp3Quality: "5",
+  compressionLevel: "none",
+  compressionCrf: "23",
+  outputPath: "/Users/me/Downloads",
+};
+
+const args = ["--extractor-args", `youtube:player_client=${PLAYER_CLIENTS[0]}`, "https://youtu.be/abc"];
+
+describe("findRemedy", () => {
+  it("steps down one quality for a missing format", () => {
+    expect(findRemedy("format-missing", settings, args)).toEqual({
+      description: "720p instead of 1080p",
+      settings: { videoQuality: "720p" },
+    });
+  });
+
+  it("drops formats picked by hand before lowering the quality", () => {
+    expect(findRemedy("format-missing", { ...settings, format: "137+140" }, args)).toEqual({
+      description: "automatic format selection",
+      settings: { format: undefined },
+    });
+  });
+
+  it("tries other player clients once the quality can't go lower", () => {
+    expect(findRemedy("format-missing", { ...settings, videoQuality: "best" }, args)).toEqual({
+      description: `player client ${PLAYER_CLIENTS[1]}`,
+      args: ["--extractor-args", `youtube:player_client=${PLAYER_CLIENTS[1]}`, "https://youtu.be/abc"],
+    });
+  });
+
+  it.each(["nsig", "forbidden"] as const)("switches player clients for %s", (kind) => {
+    expect(findRemedy(kind, settings, args)?.description).toBe(`player client ${PLAYER_CLIENTS[1]}`);
+  });
+
+  it("gives up when every player client was tried", () => {
+    const lastClient = ["--extractor-args", `youtube:player_client=${PLAYER_CLIENTS[PLAYER_CLIENTS.length - 1]}`];
+    expect(findRemedy("nsig", settings, lastClient)).toBeUndefined();
+    expect(findRemedy("nsig", settings, undefined)).toBeUndefined();
+  });
+
+  it("falls back to the default encoder and keeps the arguments", () => {
+    const remedy = findRemedy("encoder-missing", { ...settings, videoEncoder: "av1" }, args);
+    expect(remedy).toMatchObject({ settings: { videoEncoder: "x264" }, args });
+    expect(findRemedy("encoder-missing", { ...settings, videoEncoder: "x264" }, args)).toBeUndefined();
+  });
+
+  it("has nothing for failures retrying can't change", () => {
+    expect(findRemedy("private", settings, args)).toBeUndefined();
+    expect(findRemedy("network", settings, args)).toBeUndefined();
+  });
+
+  it("stops after five remedies", () => {
+    expect(findRemedy("format-missing", settings, args, ["a", "b", "c", "d", "e"])).toBeUndefined();
+  });
+});
+
+describe("formatTriedRemedies", () => {
+  it("lists what was tried", () => {
+    expect(formatTriedRemedies([])).toBe("");
+    expect(formatTriedRemedies(["720p instead of 1080p"])).toBe("Tried 720p instead of 1080p.");
+    expect(formatTriedRemedies(["720p instead of 1080p", "player client tv,web_safari", "480p instead of 720p"])).toBe(
+      "Tried 720p instead of 1080p, player client tv,web_safari and 480p instead of 720p.",
+    );
+  });
+});
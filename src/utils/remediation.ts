@@ -0,0 +1,77 @@
+import { VIDEO_ENCODERS, getVideoEncoder, isVideoType } from "./codecs";
+import { DownloadSettings, PLAYER_CLIENTS } from "./download";
+import { DownloadErrorKind } from "./errors";
+
+export interface Remedy {
+  // Shown while retrying and listed when the download fails for good, e.g. "720p instead of 1080p"
+  description: string;
+  settings?: Partial<DownloadSettings>;
+  // yt-dlp arguments for the next attempt; left out when the settings changed and they must be rebuilt
+  args?: string[];
+}
+
+// Every remedy restarts the download, so a job that keeps failing gives up after this many
+const MAX_REMEDIES = 5;
+
+const QUALITY_LADDER = ["2160p", "1440p", "1080p", "720p", "480p"];
+
+const PLAYER_CLIENT_ARG = "youtube:player_client=";
+
+// Asks YouTube through the next set of player clients; they differ in which formats and checks they get
+const tryNextPlayerClients = (args?: string[]): Remedy | undefined => {
+  const index = args?.findIndex((arg) => arg.startsWith(PLAYER_CLIENT_ARG)) ?? -1;
+  if (!args || index < 0) return undefined;
+  const next = PLAYER_CLIENTS[PLAYER_CLIENTS.indexOf(args[index].slice(PLAYER_CLIENT_ARG.length)) + 1];
+  if (!next) return undefined;
+  return {
+    description: `player client ${next}`,
+    args: args.map((arg, i) => (i === index ? `${PLAYER_CLIENT_ARG}${next}` : arg)),
+  };
+};
+
+const tryLowerQuality = (settings: DownloadSettings): Remedy | undefined => {
+  // Formats picked by hand may have gone; the automatic selector has its own fallbacks
+  if (settings.format) return { description: "automatic format selection", settings: { format: undefined } };
+  const lower = QUALITY_LADDER[QUALITY_LADDER.indexOf(settings.videoQuality) + 1];
+  if (!isVideoType(settings.downloadType) || settings.videoQuality === "best" || !lower) return undefined;
+  return { description: `${lower} instead of ${settings.videoQuality}`, settings: { videoQuality: lower } };
+};
+
+// Falls back to the container's default encoder when ffmpeg was built without the chosen one
+const tryDefaultEncoder = (settings: DownloadSettings, args?: string[]): Remedy | undefined => {
+  const encoder = getVideoEncoder(settings.downloadType, settings.videoEncoder);
+  const fallback = getVideoEncoder(settings.downloadType);
+  if (encoder === fallback) return undefined;
+  // The download itself worked, so the same arguments find the finished file again
+  return { description: `the ${VIDEO_ENCODERS[fallback].title} encoder`, settings: { videoEncoder: fallback }, args };
+};
+
+// The next thing to try for a failed download, or undefined when retrying the same way is all that's left.
+// `tried` holds the descriptions of the remedies already applied to the job.
+export const findRemedy = (
+  kind: DownloadErrorKind,
+  settings: DownloadSettings,
+  args: string[] | undefined,
+  tried: string[] = [],
+): Remedy | undefined => {
+  if (tried.length >= MAX_REMEDIES) return undefined;
+  switch (kind) {
+    case "format-missing":
+      // Some player clients only get a few formats, so another set may have the missing one
+      return tryLowerQuality(settings) || tryNextPlayerClients(args);
+    case "forbidden":
+    case "nsig":
+      return tryNextPlayerClients(args);
+    case "encoder-missing":
+      return tryDefaultEncoder(settings, args);
+    default:
+      return undefined;
+  }
+};
+
+// "Tried 720p instead of 1080p and player client tv,web_safari."
+export const formatTriedRemedies = (tried: string[]): string => {
+  if (tried.length === 0) return "";
+  const list = tried.length > 1 ? `${tried.slice(0, -1).join(", ")} and ${tried[tried.length - 1]}` : tried[0];
+  return `Tried ${list}.`;
+};
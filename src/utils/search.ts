@@ -0,0 +1,67 @@
+import { execa } from "execa";
+import { buildCookieArgs } from "./cookies";
+import { buildNetworkArgs } from "./network";
+
+export interface SearchResult {
+  id: string;
+  url: string;
+  title: string;
+  channel?: string;
+  duration?: number;
+  viewCount?: number;
+  uploadDate?: string; // YYYYMMDD, when YouTube lists it
+  description?: string;
+  thumbnail?: string;
+  isLive?: boolean;
+}
+
+interface FlatEntry {
+  id?: string;
+  title?: string;
+  channel?: string;
+  uploader?: string;
+  duration?: number | null;
+  view_count?: number | null;
+  upload_date?: string | null;
+  description?: string | null;
+  live_status?: string | null;
+  thumbnails?: { url: string; width?: number }[] | null;
+}
+
+const SEARCH_RESULT_COUNT = 20;
+
+// The widest thumbnail listed, since search entries don't have a single "thumbnail" field
+const pickThumbnail = (thumbnails: FlatEntry["thumbnails"]): string | undefined =>
+  thumbnails?.length
+    ? thumbnails.reduce((best, thumbnail) => ((thumbnail.width || 0) >= (best.width || 0) ? thumbnail : best)).url
+    : undefined;
+
+// Runs yt-dlp's YouTube search. Entries stay flat, so each video isn't resolved one by one.
+export const searchVideos = async (ytDlpPath: string, query: string, signal?: AbortSignal): Promise<SearchResult[]> => {
+  const result = await execa(
+    ytDlpPath,
+    [
+      `ytsearch${SEARCH_RESULT_COUNT}:${query}`,
+      "--flat-playlist",
+      "--dump-single-json",
+      ...buildNetworkArgs(),
+      ...buildCookieArgs(),
+    ],
+    { timeout: 60000, cancelSignal: signal },
+  );
+  const info = JSON.parse(result.stdout);
+  return ((info.entries || []) as (FlatEntry | null)[])
+    .filter((entry): entry is FlatEntry & { id: string } => !!entry?.id)
+    .map((entry) => ({
+      id: entry.id,
+      url: `https://www.youtube.com/watch?v=${entry.id}`,
+      title: entry.title || entry.id,
+      channel: entry.channel || entry.uploader,
+      duration: entry.duration ?? undefined,
+      viewCount: entry.view_count ?? undefined,
+      uploadDate: entry.upload_date ?? undefined,
+      description: entry.description ?? undefined,
+      thumbnail: pickThumbnail(entry.thumbnails) || `https://i.ytimg.com/vi/${entry.id}/hqdefault.jpg`,
+      isLive: entry.live_status === "is_live",
+    }));
+};
@@ -0,0 +1,89 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { FfmpegRunOptions, describeFfmpegError, runFfmpeg } from "./ffmpeg";
+import { VideoInfo } from "./video-info";
+
+export type SubtitleSource = "manual" | "auto" | "both";
+export type SubtitleFormat = "srt" | "vtt" | "ass";
+export type SubtitleMode = "sidecar" | "embed" | "burn";
+
+export interface SubtitleSettings {
+  languages: string[];
+  source: SubtitleSource;
+  format: SubtitleFormat;
+  mode: SubtitleMode;
+}
+
+export interface SubtitleLanguage {
+  code: string;
+  name: string;
+}
+
+// Lists the caption languages a video offers for the chosen source
+export const getSubtitleLanguages = (info: VideoInfo | null, source: SubtitleSource): SubtitleLanguage[] => {
+  if (!info) return [];
+  const tracks = {
+    ...(source !== "manual" ? info.automatic_captions : {}),
+    ...(source !== "auto" ? info.subtitles : {}),
+  };
+
+  return Object.entries(tracks)
+    .filter(([code]) => code !== "live_chat")
+    .map(([code, formats]) => ({ code, name: formats.find((f) => f.name)?.name || code }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Picks English when it exists, otherwise the first language on offer
+export const getDefaultSubtitleLanguage = (languages: SubtitleLanguage[]): string | undefined =>
+  (languages.find((l) => l.code === "en") || languages.find((l) => l.code.startsWith("en")) || languages[0])?.code;
+
+export const buildSubtitleArgs = (subtitles: SubtitleSettings, isVideo: boolean): string[] => {
+  const { languages, source, mode } = subtitles;
+  // ffmpeg's subtitles filter is most reliable with SRT, so burning always converts to it
+  const format = mode === "burn" ? "srt" : subtitles.format;
+  const args: string[] = [];
+
+  if (source !== "auto") args.push("--write-subs");
+  if (source !== "manual") args.push("--write-auto-subs");
+  args.push("--sub-langs", languages.join(","));
+  args.push("--sub-format", `${format}/best`, "--convert-subs", format);
+  if (mode === "embed" && isVideo) {
+    args.push("--embed-subs");
+  }
+  return args;
+};
+
+// Re-encodes the video with the subtitles drawn onto the picture
+export const burnSubtitles = async (
+  ffmpegPath: string,
+  videoFile: string,
+  language: string,
+  videoArgs: string[], // encoder for the re-encoded picture, see buildVideoEncoderArgs
+  options: Omit<FfmpegRunOptions, "phase"> = {},
+) => {
+  const { dir, name, ext } = path.parse(videoFile);
+  const subtitleFile = path.join(dir, `${name}.${language}.srt`);
+  if (!fs.existsSync(subtitleFile)) {
+    throw new Error(`No ${language} subtitles were downloaded, so none could be burned in.`);
+  }
+
+  // The subtitles filter needs heavy escaping for paths with quotes or colons; a temp copy avoids that
+  const tempSubtitleFile = path.join(os.tmpdir(), `burn-${Date.now()}.srt`);
+  const tempVideoFile = path.join(dir, `${name}.burning${ext}`);
+  await fs.promises.copyFile(subtitleFile, tempSubtitleFile);
+
+  try {
+    await runFfmpeg(
+      ffmpegPath,
+      ["-y", "-i", videoFile, "-vf", `subtitles=${tempSubtitleFile}`, ...videoArgs, "-c:a", "copy", tempVideoFile],
+      { ...options, phase: "burn-subtitles" },
+    );
+    await fs.promises.rename(tempVideoFile, videoFile);
+  } catch (error) {
+    await fs.promises.rm(tempVideoFile, { force: true });
+    throw new Error(`Burning in subtitles failed: ${describeFfmpegError(error)}`);
+  } finally {
+    await fs.promises.rm(tempSubtitleFile, { force: true });
+  }
+};
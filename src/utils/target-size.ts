@@ -0,0 +1,187 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ClipSettings } from "./clip";
+import {
+  EncoderSpeed,
+  VIDEO_ENCODERS,
+  VideoContainer,
+  VideoEncoder,
+  buildAudioEncoderArgs,
+  buildTwoPassEncoderArgs,
+  getTargetSizeEncoder,
+} from "./codecs";
+import { FfmpegRunOptions, describeFfmpegError, probeMedia, runFfmpeg } from "./ffmpeg";
+import { DownloadProgress } from "./progress";
+
+export interface TargetSizeSettings {
+  targetSize: string; // in MB
+  encoder: VideoEncoder;
+  speed?: EncoderSpeed;
+  container: VideoContainer;
+  videoOnly: boolean;
+  clip?: ClipSettings; // the part of the input to keep
+  // Which input streams to write; every stream, copying all but the main video and audio, when omitted
+  mapArgs?: string[];
+}
+
+export interface TargetSizePlan {
+  videoKbps: number;
+  audioKbps: number;
+  height?: number; // scaled down to this height when set
+}
+
+// Room left for the container, and for encoders landing a little above the average bitrate
+const SIZE_MARGIN = 0.96;
+// Overshooting results are encoded again at a bitrate lowered by how much they missed
+const MAX_ATTEMPTS = 3;
+// Lowest x264 bitrate in kbps that still looks acceptable at each height; other encoders need less
+const MIN_VIDEO_BITRATES: [number, number][] = [
+  [2160, 5000],
+  [1440, 2500],
+  [1080, 1200],
+  [720, 600],
+  [480, 300],
+  [360, 180],
+  [240, 100],
+];
+// Below this nothing watchable comes out, whatever the height
+const MIN_VIDEO_KBPS = 40;
+
+export const getTargetBytes = (targetSize: string): number => parseFloat(targetSize) * 1024 * 1024;
+
+// The tallest height at or below the source whose minimum bitrate the budget covers
+const pickHeight = (videoKbps: number, encoder: VideoEncoder, sourceHeight?: number): number | undefined => {
+  const { efficiency } = VIDEO_ENCODERS[encoder];
+  const candidates = MIN_VIDEO_BITRATES.filter(([height]) => !sourceHeight || height <= sourceHeight);
+  const fitting = candidates.find(([, minimum]) => videoKbps >= minimum * efficiency);
+  const height = fitting?.[0] ?? candidates[candidates.length - 1]?.[0] ?? 240;
+  return sourceHeight && height >= sourceHeight ? undefined : height;
+};
+
+// Splits the size budget between audio and video, and picks the height the video bitrate can carry
+export const planTargetSize = (
+  targetSize: string,
+  duration: number,
+  settings: Pick<TargetSizeSettings, "encoder" | "container" | "videoOnly">,
+  sourceHeight?: number,
+): TargetSizePlan => {
+  const totalKbps = (getTargetBytes(targetSize) * SIZE_MARGIN * 8) / 1000 / duration;
+  // Audio gets less room when the budget is tight, so more of it goes to the picture
+  const audioKbps = settings.videoOnly ? 0 : totalKbps < 500 ? 64 : 128;
+  const videoKbps = Math.floor(totalKbps - audioKbps);
+  if (videoKbps < MIN_VIDEO_KBPS) {
+    throw new Error(
+      `${targetSize} MB is too small for ${Math.round(duration / 60)} minutes of video. Pick a larger size or a shorter clip.`,
+    );
+  }
+  const encoder = getTargetSizeEncoder(settings.encoder, settings.container);
+  return { videoKbps, audioKbps, height: pickHeight(videoKbps, encoder, sourceHeight) };
+};
+
+// Pass log files ffmpeg and x265 leave behind, e.g. "<prefix>-0.log" and "<prefix>-0.log.mbtree"
+const removePassLogs = async (logPrefix: string) => {
+  const dir = path.dirname(logPrefix);
+  const base = path.basename(logPrefix);
+  const files = await fs.promises.readdir(dir).catch(() => [] as string[]);
+  await Promise.all(
+    files.filter((file) => file.startsWith(base)).map((file) => fs.promises.rm(path.join(dir, file), { force: true })),
+  );
+};
+
+// Encodes the input in two passes so the result fits the target size, scaling the picture down when the
+// bitrate is too low for the source height. The output replaces `output` (which may be the input) when done.
+export const encodeToTargetSize = async (
+  ffmpegPath: string,
+  input: string,
+  output: string,
+  settings: TargetSizeSettings,
+  options: Omit<FfmpegRunOptions, "phase">,
+) => {
+  const { clip, container, encoder, speed } = settings;
+  const targetBytes = getTargetBytes(settings.targetSize);
+  // Already small enough: re-encoding would only lose quality
+  if (!clip && input === output && (await fs.promises.stat(input)).size <= targetBytes) return;
+
+  const probe = await probeMedia(ffmpegPath, input);
+  const fullDuration = options.duration || probe.duration;
+  const duration = clip?.end !== undefined ? clip.end - (clip.start || 0) : (fullDuration || 0) - (clip?.start || 0);
+  if (!duration || duration <= 0) throw new Error("Couldn't read the length of the video to fit it to a size.");
+
+  const videoOnly = settings.videoOnly || !probe.hasAudio;
+  let plan = planTargetSize(settings.targetSize, duration, { ...settings, videoOnly }, probe.height);
+  const { dir, name, ext } = path.parse(output);
+  const tempFile = path.join(dir, `${name}.fitting${ext}`);
+  const logPrefix = path.join(os.tmpdir(), `yt-target-${Date.now().toString(36)}`);
+  const trimInput = clip?.start ? ["-ss", String(clip.start)] : [];
+  const trimOutput = clip?.end !== undefined ? ["-t", String(clip.end - (clip.start || 0))] : [];
+  const mapArgs = settings.mapArgs || ["-map", "0", "-c", "copy"];
+  let lastSize = 0;
+
+  try {
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const scale = plan.height ? ["-filter:v:0", `scale=-2:${plan.height}`] : [];
+      const encode = (pass: 1 | 2) =>
+        buildTwoPassEncoderArgs("v:0", encoder, plan.videoKbps, pass, logPrefix, speed, container);
+      // Each pass is half of the work, so progress runs 0-50% for the first and 50-100% for the second
+      const passOptions = (pass: 1 | 2): FfmpegRunOptions => ({
+        ...options,
+        duration,
+        phase: "compress",
+        onProgress: (progress: DownloadProgress) =>
+          options.onProgress?.({
+            ...progress,
+            percentage: (pass - 1) * 50 + progress.percentage / 2,
+            eta: progress.eta && pass === 1 ? progress.eta * 2 : progress.eta,
+          }),
+      });
+
+      await runFfmpeg(
+        ffmpegPath,
+        ["-y", ...trimInput, "-i", input, ...trimOutput, "-map", "0:v:0", ...scale, ...encode(1), "-f", "null", "-"],
+        passOptions(1),
+      );
+      await runFfmpeg(
+        ffmpegPath,
+        [
+          "-y",
+          ...trimInput,
+          "-i",
+          input,
+          ...trimOutput,
+          ...mapArgs,
+          ...scale,
+          ...encode(2),
+          ...(videoOnly ? [] : buildAudioEncoderArgs(container, `${plan.audioKbps}k`)),
+          ...(container === "mp4" ? ["-movflags", "+faststart"] : []),
+          tempFile,
+        ],
+        passOptions(2),
+      );
+
+      lastSize = (await fs.promises.stat(tempFile)).size;
+      if (lastSize <= targetBytes) {
+        await fs.promises.rename(tempFile, output);
+        return;
+      }
+      // Aim below the target by as much as this attempt went over it
+      const videoKbps = Math.floor(plan.videoKbps * (targetBytes / lastSize) * 0.95);
+      if (videoKbps < MIN_VIDEO_KBPS) break;
+      plan = {
+        ...plan,
+        videoKbps,
+        height: pickHeight(videoKbps, getTargetSizeEncoder(encoder, container), probe.height),
+      };
+    }
+  } catch (error) {
+    await fs.promises.rm(tempFile, { force: true });
+    throw new Error(`Fitting the video to ${settings.targetSize} MB failed: ${describeFfmpegError(error)}`);
+  } finally {
+    await removePassLogs(logPrefix);
+  }
+
+  await fs.promises.rm(tempFile, { force: true });
+  throw new Error(
+    `Couldn't fit the video into ${settings.targetSize} MB; the smallest attempt was ${(lastSize / 1024 / 1024).toFixed(1)} MB.`,
+  );
+};
@@ -0,0 +1,151 @@
+import { execa } from "execa";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { buildCookieArgs } from "./cookies";
+import { formatDuration } from "./format";
+import { buildNetworkArgs } from "./network";
+import { SubtitleSource } from "./subtitles";
+import { Chapter } from "./video-info";
+
+export interface TranscriptLine {
+  start: number; // in seconds
+  text: string;
+}
+
+export interface TranscriptOptions {
+  format: "text" | "markdown";
+  timestamps: boolean;
+  paragraphs: boolean;
+  chapters?: Chapter[];
+  title?: string;
+  url?: string;
+}
+
+// Start a new paragraph after a pause this long, or once a paragraph gets this long
+const PARAGRAPH_PAUSE = 2.5;
+const PARAGRAPH_LENGTH = 600;
+
+const timestampRegex = /^(?:(\d+):)?(\d{2}):(\d{2})[.,](\d{3})\s+-->/;
+
+const parseTimestamp = (match: RegExpMatchArray): number =>
+  parseInt(match[1] || "0") * 3600 + parseInt(match[2]) * 60 + parseInt(match[3]) + parseInt(match[4]) / 1000;
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+
+// Parses WebVTT into caption lines. YouTube's auto captions repeat the previous line in every cue
+// as the text scrolls, so lines identical to one just emitted are dropped.
+export const parseVtt = (vtt: string): TranscriptLine[] => {
+  const lines: TranscriptLine[] = [];
+  const recent: string[] = [];
+  let cueStart: number | null = null;
+
+  for (const rawLine of vtt.split(/\r?\n/)) {
+    const timestampMatch = rawLine.match(timestampRegex);
+    if (timestampMatch) {
+      cueStart = parseTimestamp(timestampMatch);
+      continue;
+    }
+    if (cueStart === null) continue; // Header, NOTE and STYLE blocks come before the first cue
+    if (!rawLine.trim()) {
+      cueStart = null;
+      continue;
+    }
+
+    const text = decodeEntities(rawLine.replace(/<[^>]+>/g, ""))
+      .replace(/\s+/g, " ")
+      .trim();
+    if (!text || recent.includes(text)) continue;
+
+    lines.push({ start: cueStart, text });
+    recent.push(text);
+    if (recent.length > 3) recent.shift();
+  }
+  return lines;
+};
+
+const formatTimestamp = (seconds: number, options: TranscriptOptions): string => {
+  const label = formatDuration(seconds);
+  if (options.format !== "markdown" || !options.url) return `[${label}]`;
+  try {
+    const link = new URL(options.url.startsWith("http") ? options.url : `https://${options.url}`);
+    link.searchParams.set("t", `${Math.floor(seconds)}s`);
+    return `[${label}](${link.toString()})`;
+  } catch {
+    return `[${label}]`;
+  }
+};
+
+const formatHeading = (title: string, level: 1 | 2, options: TranscriptOptions): string => {
+  if (options.format === "markdown") return `${"#".repeat(level)} ${title}`;
+  return `${title}\n${(level === 1 ? "=" : "-").repeat(title.length)}`;
+};
+
+// Turns caption lines into readable text, optionally grouped into paragraphs under chapter headings
+export const buildTranscript = (lines: TranscriptLine[], options: TranscriptOptions): string => {
+  const blocks: string[] = [];
+  const chapters = [...(options.chapters || [])].sort((a, b) => a.start_time - b.start_time);
+  let chapterIndex = 0;
+  let paragraph: TranscriptLine[] = [];
+
+  const flush = () => {
+    if (paragraph.length === 0) return;
+    const prefix = options.timestamps ? `${formatTimestamp(paragraph[0].start, options)} ` : "";
+    blocks.push(prefix + paragraph.map((line) => line.text).join(" "));
+    paragraph = [];
+  };
+
+  if (options.title) blocks.push(formatHeading(options.title, 1, options));
+
+  lines.forEach((line, index) => {
+    // Chapters that start before this line get their heading first
+    while (chapterIndex < chapters.length && chapters[chapterIndex].start_time <= line.start) {
+      flush();
+      blocks.push(formatHeading(chapters[chapterIndex].title, 2, options));
+      chapterIndex++;
+    }
+
+    if (!options.paragraphs) {
+      blocks.push((options.timestamps ? `${formatTimestamp(line.start, options)} ` : "") + line.text);
+      return;
+    }
+
+    const previous = lines[index - 1];
+    const length = paragraph.reduce((total, l) => total + l.text.length + 1, 0);
+    const paused = previous && line.start - previous.start > PARAGRAPH_PAUSE && /[.!?]$/.test(previous.text);
+    if (paragraph.length > 0 && (paused || length > PARAGRAPH_LENGTH)) flush();
+    paragraph.push(line);
+  });
+  flush();
+
+  return blocks.join(options.paragraphs || options.format === "markdown" ? "\n\n" : "\n") + "\n";
+};
+
+// Downloads only the captions as WebVTT and returns the file contents, or null when there are none
+export const fetchCaptions = async (
+  ytDlpPath: string,
+  url: string,
+  language: string,
+  source: SubtitleSource,
+): Promise<string | null> => {
+  const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "yt-transcript-"));
+  try {
+    const args = [url, "--skip-download", "--no-playlist", ...buildNetworkArgs(), ...buildCookieArgs()];
+    if (source !== "auto") args.push("--write-subs");
+    if (source !== "manual") args.push("--write-auto-subs");
+    args.push("--sub-langs", language, "--sub-format", "vtt", "-o", path.join(tempDir, "transcript.%(ext)s"));
+    await execa(ytDlpPath, args, { timeout: 60000 });
+
+    const file = (await fs.promises.readdir(tempDir)).find((name) => name.endsWith(".vtt"));
+    return file ? await fs.promises.readFile(path.join(tempDir, file), "utf8") : null;
+  } finally {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  }
+};
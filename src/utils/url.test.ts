@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { ParsedUrl, parseMediaUrl, parseTimestamp } from "./url";
+
+const watch = (id: string, extra: Partial<ParsedUrl> = {}): ParsedUrl => ({
+  url: `https://www.youtube.com/watch?v=${id}`,
+  kind: "video",
+  site: "youtube",
+  videoId: id,
+  playlistId: undefined,
+  startTime: undefined,
+  ...extra,
+});
+
+const VIDEO_ID = "dQw4w9WgXcQ";
+const PLAYLIST_ID = "PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf";
+
+describe("parseMediaUrl", () => {
+  it.each<[string, ParsedUrl]>([
+    [`https://www.youtube.com/watch?v=${VIDEO_ID}`, watch(VIDEO_ID)],
+    [`youtube.com/watch?v=${VIDEO_ID}&si=abc&feature=share`, watch(VIDEO_ID)],
+    [`https://youtu.be/${VIDEO_ID}`, watch(VIDEO_ID)],
+    [`https://youtu.be/${VIDEO_ID}?si=xyz`, watch(VIDEO_ID)],
+    [`https://www.youtube.com/shorts/${VIDEO_ID}`, watch(VIDEO_ID)],
+    [`https://www.youtube.com/live/${VIDEO_ID}?feature=shared`, watch(VIDEO_ID)],
+    [`https://www.youtube.com/embed/${VIDEO_ID}`, watch(VIDEO_ID)],
+    [`https://www.youtube-nocookie.com/embed/${VIDEO_ID}`, watch(VIDEO_ID)],
+    [`https://music.youtube.com/watch?v=${VIDEO_ID}`, watch(VIDEO_ID)],
+    [`https://m.youtube.com/watch?v=${VIDEO_ID}`, watch(VIDEO_ID)],
+    [`  https://M.YouTube.com/watch?v=${VIDEO_ID}  `, watch(VIDEO_ID)],
+  ])("reads the video from %s", (input, expected) => {
+    expect(parseMediaUrl(input)).toEqual(expected);
+  });
+
+  it.each<[string, ParsedUrl]>([
+    [
+      `https://www.youtube.com/playlist?list=${PLAYLIST_ID}`,
+      {
+        url: `https://www.youtube.com/playlist?list=${PLAYLIST_ID}`,
+        kind: "playlist",
+        site: "youtube",
+        playlistId: PLAYLIST_ID,
+      },
+    ],
+    [
+      `https://www.youtube.com/watch?list=${PLAYLIST_ID}`,
+      {
+        url: `https://www.youtube.com/playlist?list=${PLAYLIST_ID}`,
+        kind: "playlist",
+        site: "youtube",
+        playlistId: PLAYLIST_ID,
+      },
+    ],
+    [
+      `https://www.youtube.com/watch?v=${VIDEO_ID}&list=${PLAYLIST_ID}&index=3`,
+      watch(VIDEO_ID, {
+        url: `https://www.youtube.com/watch?v=${VIDEO_ID}&list=${PLAYLIST_ID}`,
+        playlistId: PLAYLIST_ID,
+      }),
+    ],
+    [
+      "https://www.youtube.com/@LinusTechTips/videos/",
+      {
+        url: "https://www.youtube.com/@LinusTechTips/videos",
+        kind: "channel",
+        site: "youtube",
+        channelTab: "videos",
+      },
+    ],
+    [
+      "https://www.youtube.com/channel/UCXuqSBlHAE6Xw-yeJA0Tunw",
+      { url: "https://www.youtube.com/channel/UCXuqSBlHAE6Xw-yeJA0Tunw", kind: "channel", site: "youtube" },
+    ],
+  ])("reads the playlist or channel from %s", (input, expected) => {
+    expect(parseMediaUrl(input)).toEqual(expected);
+  });
+
+  it.each<[string, number]>([
+    [`https://youtu.be/${VIDEO_ID}?t=83`, 83],
+    [`https://youtu.be/${VIDEO_ID}?t=83s`, 83],
+    [`https://www.youtube.com/watch?v=${VIDEO_ID}&t=1m23s`, 83],
+    [`https://www.youtube.com/watch?v=${VIDEO_ID}&t=1h2m3s`, 3723],
+    [`https://www.youtube.com/embed/${VIDEO_ID}?start=90`, 90],
+    [`https://www.youtube.com/watch?v=${VIDEO_ID}#t=2m`, 120],
+  ])("reads the start time from %s", (input, startTime) => {
+    expect(parseMediaUrl(input)).toEqual(watch(VIDEO_ID, { startTime }));
+  });
+
+  it.each([
+    "",
+    "   ",
+    "not a url",
+    "dQw4w9WgXcQ",
+    "ftp://youtube.com/watch?v=dQw4w9WgXcQ",
+    "https://www.youtube.com/",
+    "https://www.youtube.com/watch",
+    "https://www.youtube.com/watch?v=bad id!",
+    "https://www.youtube.com/playlist",
+    "https://www.youtube.com/feed/subscriptions",
+    "https://youtu.be/",
+    "https://vimeo.com/76979871",
+    "https://youtube.com.evil.example/watch?v=dQw4w9WgXcQ",
+  ])("rejects %j", (input) => {
+    expect(parseMediaUrl(input)).toBeNull();
+  });
+
+  it("accepts other sites when allowed, without tracking parameters", () => {
+    expect(parseMediaUrl("https://vimeo.com/76979871?utm_source=x&h=abc", { anySite: true })).toEqual({
+      url: "https://vimeo.com/76979871?h=abc",
+      kind: "video",
+      site: "other",
+    });
+    expect(parseMediaUrl("https://www.youtube.com/feed/subscriptions", { anySite: true })).toBeNull();
+  });
+});
+
+describe("parseTimestamp", () => {
+  it.each<[string | null, number | undefined]>([
+    ["90", 90],
+    ["90s", 90],
+    ["1m30s", 90],
+    ["1h", 3600],
+    ["1h2m3s", 3723],
+    ["", undefined],
+    [null, undefined],
+    ["1:30", undefined],
+    ["abc", undefined],
+  ])("reads %j", (value, seconds) => {
+    expect(parseTimestamp(value)).toBe(seconds);
+  });
+});
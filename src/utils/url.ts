@@ -0,0 +1,123 @@
+import { getPreferenceValues } from "@raycast/api";
+
+export type UrlKind = "video" | "playlist" | "channel";
+
+export interface ParsedUrl {
+  url: string; // normalised URL handed to yt-dlp
+  kind: UrlKind;
+  site: "youtube" | "other";
+  videoId?: string;
+  playlistId?: string;
+  startTime?: number; // seconds, from "t=" or "start="
+  channelTab?: string; // e.g. "videos" or "shorts", when a channel URL names one
+}
+
+export interface ParseUrlOptions {
+  // Accept any http(s) URL and leave it to yt-dlp's extractors, e.g. Vimeo or Twitch VODs
+  anySite?: boolean;
+}
+
+interface UrlPreferences {
+  allowOtherSites?: boolean;
+}
+
+export const getUrlOptions = (): ParseUrlOptions => ({
+  anySite: !!getPreferenceValues<UrlPreferences>().allowOtherSites,
+});
+
+const YOUTUBE_HOSTS = /^(www\.|m\.|music\.)?youtube\.com$|^(www\.)?youtube-nocookie\.com$/i;
+// Paths that carry the video ID as their second segment
+const VIDEO_PATHS = ["shorts", "live", "embed", "v", "e"];
+const CHANNEL_PATH =
+  /^\/(@[\w.-]+|channel\/[\w-]+|c\/[\w.-]+|user\/[\w.-]+)(\/(videos|shorts|streams|playlists|featured))?\/?$/i;
+const ID_PATTERN = /^[\w-]+$/;
+
+// Query parameters added by share buttons and analytics, dropped from URLs of other sites
+const TRACKING_PARAMS = /^(utm_\w+|si|feature|fbclid|gclid|igshid|ref|ref_src|ref_url|share|mc_[ce]id)$/i;
+
+// "90", "90s", "1m30s" or "1h2m3s"
+export const parseTimestamp = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  if (/^\d+s?$/.test(value)) return parseInt(value);
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!match || !match[0]) return undefined;
+  const [, hours = "0", minutes = "0", seconds = "0"] = match;
+  return parseInt(hours) * 3600 + parseInt(minutes) * 60 + parseInt(seconds);
+};
+
+const toUrl = (input: string): URL | null => {
+  const trimmed = input.trim();
+  if (!trimmed || /\s/.test(trimmed)) return null;
+  try {
+    const parsed = new URL(/^[a-z][\w+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    return /^https?:$/.test(parsed.protocol) && parsed.hostname.includes(".") ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const parseYoutubeUrl = (parsed: URL): ParsedUrl | null => {
+  const host = parsed.hostname.toLowerCase();
+  const segments = parsed.pathname.split("/").filter(Boolean);
+  const playlistId = parsed.searchParams.get("list") || undefined;
+  const startTime = parseTimestamp(
+    parsed.searchParams.get("t") || parsed.searchParams.get("start") || parsed.hash.match(/t=(\w+)/)?.[1] || null,
+  );
+  let videoId: string | undefined;
+
+  if (host === "youtu.be") {
+    videoId = segments[0];
+  } else if (!YOUTUBE_HOSTS.test(host)) {
+    return null;
+  } else if (segments[0] === "watch") {
+    videoId = parsed.searchParams.get("v") || undefined;
+  } else if (VIDEO_PATHS.includes(segments[0])) {
+    videoId = segments[1];
+  } else if (segments[0] === "playlist") {
+    if (!playlistId) return null;
+  } else if (CHANNEL_PATH.test(parsed.pathname)) {
+    return {
+      url: `https://www.youtube.com${parsed.pathname.replace(/\/$/, "")}`,
+      kind: "channel",
+      site: "youtube",
+      channelTab: parsed.pathname.match(CHANNEL_PATH)?.[3]?.toLowerCase(),
+    };
+  }
+
+  const list = playlistId && ID_PATTERN.test(playlistId) ? playlistId : undefined;
+  // "watch?list=..." without a video opens the playlist
+  if (!videoId && list) {
+    return {
+      url: `https://www.youtube.com/playlist?list=${list}`,
+      kind: "playlist",
+      site: "youtube",
+      playlistId: list,
+    };
+  }
+  if (!videoId || !ID_PATTERN.test(videoId)) return null;
+  return {
+    url: `https://www.youtube.com/watch?v=${videoId}${list ? `&list=${list}` : ""}`,
+    kind: "video",
+    site: "youtube",
+    videoId,
+    playlistId: list,
+    startTime,
+  };
+};
+
+// Recognises every YouTube URL shape (watch, youtu.be, shorts, live, embed, mobile, music and
+// youtube-nocookie), extracts its IDs and timestamp and rebuilds it without tracking parameters.
+// Returns null for anything that isn't a supported URL.
+export const parseMediaUrl = (input: string, options: ParseUrlOptions = {}): ParsedUrl | null => {
+  const parsed = toUrl(input);
+  if (!parsed) return null;
+  // YouTube pages that aren't videos, playlists or channels stay rejected in any-site mode too
+  const host = parsed.hostname.toLowerCase();
+  if (host === "youtu.be" || YOUTUBE_HOSTS.test(host) || !options.anySite) return parseYoutubeUrl(parsed);
+
+  // yt-dlp decides whether it can handle the URL; only the tracking noise is removed
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (TRACKING_PARAMS.test(key)) parsed.searchParams.delete(key);
+  }
+  return { url: parsed.toString(), kind: "video", site: "other" };
+};
@@ -0,0 +1,68 @@
+import { execa } from "execa";
+import { buildCookieArgs } from "./cookies";
+import { buildNetworkArgs } from "./network";
+
+export interface SubtitleTrack {
+  ext: string;
+  url?: string;
+  name?: string;
+}
+
+export interface VideoFormat {
+  format_id: string;
+  ext: string;
+  vcodec?: string;
+  acodec?: string;
+  width?: number | null;
+  height?: number | null;
+  fps?: number | null;
+  tbr?: number | null; // total bitrate in kbps
+  abr?: number | null;
+  vbr?: number | null;
+  filesize?: number | null;
+  filesize_approx?: number | null;
+  format_note?: string;
+  dynamic_range?: string | null;
+  language?: string | null;
+}
+
+export interface Chapter {
+  start_time: number;
+  end_time: number;
+  title: string;
+}
+
+// The subset of yt-dlp's --dump-json output the extension reads
+export interface VideoInfo {
+  id?: string;
+  title?: string;
+  uploader?: string;
+  channel?: string;
+  upload_date?: string; // YYYYMMDD
+  view_count?: number;
+  like_count?: number;
+  description?: string;
+  thumbnail?: string;
+  channel_url?: string;
+  age_limit?: number;
+  availability?: string | null; // public, unlisted, needs_auth, subscriber_only, premium_only, private
+  live_status?: string | null; // not_live, is_live, is_upcoming, was_live, post_live
+  duration?: number;
+  filesize?: number;
+  resolution?: string;
+  width?: number;
+  height?: number;
+  playlist?: string | null;
+  playlist_title?: string | null;
+  subtitles?: Record<string, SubtitleTrack[]>;
+  automatic_captions?: Record<string, SubtitleTrack[]>;
+  chapters?: Chapter[] | null;
+  formats?: VideoFormat[];
+}
+
+// Aborting the signal stops yt-dlp, e.g. once the info is no longer wanted
+export const fetchVideoInfo = async (ytDlpPath: string, url: string, signal?: AbortSignal): Promise<VideoInfo> => {
+  const infoArgs = [url, "--dump-json", "--no-playlist", ...buildNetworkArgs(), ...buildCookieArgs()];
+  const result = await execa(ytDlpPath, infoArgs, { timeout: 30000, cancelSignal: signal });
+  return JSON.parse(result.stdout);
+};
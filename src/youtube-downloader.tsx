@@ -1,120 +1,150 @@
-import { ActionPanel, Action, Form, showToast, Toast, closeMainWindow, PopToRootType, Clipboard } from "@raycast/api";
+import {
+  ActionPanel,
+  Action,
+  Form,
+  showToast,
+  Toast,
+  Clipboard,
+  launchCommand,
+  LaunchType,
+  Icon,
+  Keyboard,
+  openExtensionPreferences,
+} from "@raycast/api";
 import { useState, useEffect, useRef } from "react";
-import { execa } from "execa";
 import path from "path";
 import os from "os";
-
-// Function to find the path of a command
-const findCommandPath = async (command: string): Promise<string | null> => {
-  try {
-    // Try 'which' first - if it succeeds, the command itself is the path (it's in PATH)
-    // and execa will find it.
-    await execa("which", [command]);
-    return command; // Return the command name itself, execa will resolve it via PATH
-  } catch {
-    // 'which' failed, try known Homebrew paths
-    const knownPaths: string[] = [];
-    if (os.arch() === "arm64") {
-      knownPaths.push(`/opt/homebrew/bin/${command}`);
-    }
-    knownPaths.push(`/usr/local/bin/${command}`);
-
-    for (const p of knownPaths) {
-      try {
-        const testArgs = command === "ffmpeg" ? ["-version"] : ["--version"];
-        await execa(p, testArgs);
-        return p; // Return the full path
-      } catch {
-        // Continue to next path
-      }
-    }
-    return null; // Not found
-  }
-};
+import { PostProcessFields } from "./components/post-process-fields";
+import { PresetForm } from "./components/preset-form";
+import { VideoInfoDetail } from "./components/video-info-detail";
+import { INSTALL_GUIDES, findCommandPath } from "./utils/binaries";
+import { ClipSettings, getClipDuration, parseTimeInput } from "./utils/clip";
+import {
+  AUDIO_BITRATES,
+  DEFAULT_AUDIO_BITRATE,
+  DEFAULT_ENCODER_SPEED,
+  DEFAULT_TARGET_SIZE,
+  DOWNLOAD_TYPES,
+  ENCODER_SPEEDS,
+  EncoderSpeed,
+  TARGET_SIZES,
+  VIDEO_ENCODERS,
+  VideoEncoder,
+  getCrfOptions,
+  getEncodersForContainer,
+  getOutputExtension,
+  getVideoContainer,
+  getVideoEncoder,
+  isVideoOnlyType,
+  isVideoType,
+  supportsThumbnail,
+  usesAudioBitrate,
+} from "./utils/codecs";
+import { estimateDownloadSize, formatEstimate } from "./utils/estimate";
+import { DownloadSettings } from "./utils/download";
+import { DownloadErrorDescription, describeDownloadError } from "./utils/errors";
+import {
+  CollisionPolicy,
+  DEFAULT_FILENAME_TEMPLATE,
+  FILENAME_PLACEHOLDERS,
+  getDefaultFilenameSettings,
+  renderFilenamePreview,
+  validateFilenameTemplate,
+} from "./utils/filename";
+import { formatDuration } from "./utils/format";
+import {
+  buildFormatSelection,
+  describeAudioFormat,
+  describeVideoFormat,
+  getAudioFormats,
+  getAvailableQualities,
+  getDefaultAudioFormat,
+  getVideoFormats,
+  hasAudio,
+} from "./utils/formats";
+import { trackJobInToast } from "./utils/job-toast";
+import {
+  PlaylistInfo,
+  fetchPlaylistInfo,
+  formatItemRange,
+  getPlaylistKind,
+  isPlaylistOnlyUrl,
+  parseItemRange,
+} from "./utils/playlist";
+import { DEFAULT_POST_PROCESSING, PostProcessSettings } from "./utils/postprocess";
+import { Preset, findMatchingPreset, getDefaultPresetId, getPresets } from "./utils/presets";
+import { enqueueDownload, processQueue } from "./utils/queue";
+import {
+  SubtitleFormat,
+  SubtitleMode,
+  SubtitleSource,
+  getDefaultSubtitleLanguage,
+  getSubtitleLanguages,
+} from "./utils/subtitles";
+import { getUrlOptions, parseMediaUrl } from "./utils/url";
+import { VideoInfo, fetchVideoInfo } from "./utils/video-info";
 
 export default function Command() {
+  const filenameDefaults = getDefaultFilenameSettings();
   const [url, setUrl] = useState("");
   const [downloadType, setDownloadType] = useState("mp4_video_audio");
   const [videoQuality, setVideoQuality] = useState("best");
   const [mp3Quality, setMp3Quality] = useState("5");
+  const [postProcessing, setPostProcessing] = useState<PostProcessSettings>(DEFAULT_POST_PROCESSING);
   const [compressionLevel, setCompressionLevel] = useState("none");
   const [compressionCrf, setCompressionCrf] = useState("23");
+  const [targetSize, setTargetSize] = useState(DEFAULT_TARGET_SIZE);
+  const [videoEncoder, setVideoEncoder] = useState<VideoEncoder>("x264");
+  const [encoderSpeed, setEncoderSpeed] = useState<EncoderSpeed>(DEFAULT_ENCODER_SPEED);
+  const [audioBitrate, setAudioBitrate] = useState(DEFAULT_AUDIO_BITRATE);
   const [outputPath, setOutputPath] = useState(path.join(os.homedir(), "Downloads"));
+  const [filenameTemplate, setFilenameTemplate] = useState(filenameDefaults.template);
+  const [filenameTemplateError, setFilenameTemplateError] = useState<string | undefined>();
+  const [collisionPolicy, setCollisionPolicy] = useState<CollisionPolicy>(filenameDefaults.collisionPolicy);
+  const [safeFilenames, setSafeFilenames] = useState(filenameDefaults.safeNames);
   const [estimatedSize, setEstimatedSize] = useState<string>("");
-  const [videoInfo, setVideoInfo] = useState<{
-    duration?: number;
-    title?: string;
-    filesize?: number;
-  } | null>(null);
+  const [videoInfo, setVideoInfo] = useState<VideoInfo | null>(null);
+  // Why the info couldn't be read, shown in the video info view
+  const [videoInfoError, setVideoInfoError] = useState<DownloadErrorDescription | undefined>();
+  const [playlistMode, setPlaylistMode] = useState(false);
+  const [playlistInfo, setPlaylistInfo] = useState<PlaylistInfo | null>(null);
+  const [selectedItems, setSelectedItems] = useState<string[]>([]);
+  const [itemRange, setItemRange] = useState("");
+  const [itemRangeError, setItemRangeError] = useState<string | undefined>();
+  const [isFetchingPlaylist, setIsFetchingPlaylist] = useState(false);
+  const [subtitlesEnabled, setSubtitlesEnabled] = useState(false);
+  const [subtitleSource, setSubtitleSource] = useState<SubtitleSource>("manual");
+  const [subtitleLanguages, setSubtitleLanguages] = useState<string[]>([]);
+  const [subtitleFormat, setSubtitleFormat] = useState<SubtitleFormat>("srt");
+  const [subtitleMode, setSubtitleMode] = useState<SubtitleMode>("sidecar");
+  const [clipStart, setClipStart] = useState("");
+  const [clipEnd, setClipEnd] = useState("");
+  const [clipError, setClipError] = useState<{ start?: string; end?: string }>({});
+  const [exactCuts, setExactCuts] = useState(false);
+  const [splitChapters, setSplitChapters] = useState(false);
+  const [advancedFormats, setAdvancedFormats] = useState(false);
+  const [videoFormatId, setVideoFormatId] = useState("");
+  const [audioFormatId, setAudioFormatId] = useState("");
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [defaultPresetId, setDefaultPresetId] = useState<string | undefined>();
   const [selectedPreset, setSelectedPreset] = useState<string>("custom");
   const [urlError, setUrlError] = useState<string | undefined>();
   const [isLoading, setIsLoading] = useState(true);
   const [ytDlpPath, setYtDlpPath] = useState<string | null>(null);
   const [ffmpegPath, setFfmpegPath] = useState<string | null>(null);
-  const activeProcessRef = useRef<ReturnType<typeof execa> | null>(null);
+  // Flat playlist extraction is slow for large channels, so keep results per URL
+  const playlistCacheRef = useRef<Record<string, PlaylistInfo>>({});
+  // The estimate is recalculated on every settings change; the info only needs fetching once
+  const videoInfoCacheRef = useRef<Record<string, VideoInfo>>({});
 
   const downloadsPath = path.join(os.homedir(), "Downloads");
 
-  // Regex for basic YouTube URL validation (used for clipboard check)
-  const basicYoutubeRegex = /^(https?:\/\/)?(www\.)?(youtube\.com|youtu\.be)/i;
-
-  // Preset configurations
-  const presets = {
-    "high-quality": {
-      name: "🎬 High Quality",
-      description: "4K/2K with light compression - Best for viewing",
-      downloadType: "mp4_video_audio",
-      videoQuality: "best",
-      compressionLevel: "light",
-      compressionCrf: "20",
-      mp3Quality: "0",
-    },
-    "mobile-friendly": {
-      name: "📱 Mobile Friendly",
-      description: "720p with high compression - Great for phones",
-      downloadType: "mp4_video_audio",
-      videoQuality: "720p",
-      compressionLevel: "high",
-      compressionCrf: "28",
-      mp3Quality: "5",
-    },
-    "storage-saver": {
-      name: "💾 Storage Saver",
-      description: "480p with maximum compression - Minimal space",
-      downloadType: "mp4_video_audio",
-      videoQuality: "480p",
-      compressionLevel: "high",
-      compressionCrf: "30",
-      mp3Quality: "5",
-    },
-    "audio-only": {
-      name: "🎵 Audio Only",
-      description: "High quality MP3 - Just the sound",
-      downloadType: "mp3_audio",
-      videoQuality: "best",
-      compressionLevel: "none",
-      compressionCrf: "23",
-      mp3Quality: "0",
-    },
-    balanced: {
-      name: "⚖️ Balanced",
-      description: "1080p with medium compression - Good all-around",
-      downloadType: "mp4_video_audio",
-      videoQuality: "1080p",
-      compressionLevel: "medium",
-      compressionCrf: "23",
-      mp3Quality: "2",
-    },
-    custom: {
-      name: "🔧 Custom",
-      description: "Manual settings",
-      downloadType: "mp4_video_audio",
-      videoQuality: "best",
-      compressionLevel: "none",
-      compressionCrf: "23",
-      mp3Quality: "5",
-    },
-  };
+  const urlOptions = getUrlOptions();
+  // The cleaned-up URL that yt-dlp gets; whatever was typed while it doesn't parse
+  const mediaUrl = parseMediaUrl(url, urlOptions);
+  const normalizedUrl = mediaUrl?.url || url;
+  // The time a shared link starts at, which the cleaned URL drops
+  const linkStart = mediaUrl?.startTime;
 
   useEffect(() => {
     async function initialize() {
@@ -128,23 +158,29 @@ export default function Command() {
       setYtDlpPath(foundYtDlpPath);
       setFfmpegPath(foundFfmpegPath);
 
-      if (clipboardText && basicYoutubeRegex.test(clipboardText)) {
-        // Further validation will happen onBlur or onSubmit, but this pre-fills.
-        setUrl(clipboardText.trim());
+      // Pick up anything left in the queue from an earlier session
+      if (foundYtDlpPath && foundFfmpegPath) {
+        processQueue(foundYtDlpPath, foundFfmpegPath);
+      }
+
+      const clipboardUrl = clipboardText ? parseMediaUrl(clipboardText, urlOptions) : null;
+      if (clipboardUrl) {
+        // Pre-filled without tracking parameters; the form validates it again on blur and submit
+        setUrl(clipboardUrl.url);
       }
 
       if (!foundYtDlpPath) {
         await showToast(
           Toast.Style.Failure,
           "yt-dlp Not Found",
-          "Please install yt-dlp (e.g., brew install yt-dlp) and ensure it's in your PATH or standard Homebrew locations.",
+          "Install yt-dlp, or set its path in the extension preferences. Run Check Setup for details.",
         );
       }
       if (!foundFfmpegPath) {
         await showToast(
           Toast.Style.Failure,
           "FFmpeg Not Found",
-          "Please install ffmpeg (e.g., brew install ffmpeg) and ensure it's in your PATH or standard Homebrew locations.",
+          "Install ffmpeg, or set its path in the extension preferences. Run Check Setup for details.",
         );
       }
       setIsLoading(false);
@@ -152,12 +188,99 @@ export default function Command() {
     initialize();
   }, []);
 
+  // Playlist and channel pages can only be downloaded as a playlist; plain videos never are
+  useEffect(() => {
+    if (isPlaylistOnlyUrl(normalizedUrl)) {
+      setPlaylistMode(true);
+    } else if (!getPlaylistKind(normalizedUrl)) {
+      setPlaylistMode(false);
+    }
+  }, [url]);
+
   // Update file size estimation when relevant parameters change
   useEffect(() => {
     if (url && ytDlpPath && validateUrl(url)) {
-      getVideoInfoAndEstimate(url);
+      getVideoInfoAndEstimate(normalizedUrl);
+    }
+  }, [
+    url,
+    downloadType,
+    videoQuality,
+    compressionLevel,
+    compressionCrf,
+    targetSize,
+    videoEncoder,
+    audioBitrate,
+    mp3Quality,
+    ytDlpPath,
+    playlistMode,
+    selectedItems,
+    clipStart,
+    clipEnd,
+    advancedFormats,
+    videoFormatId,
+    audioFormatId,
+  ]);
+
+  const availableSubtitleLanguages = getSubtitleLanguages(videoInfo, subtitleSource);
+  const isVideoDownload = isVideoType(downloadType);
+  const container = getVideoContainer(downloadType);
+  // What the encoder dropdown shows; the container may not hold the encoder picked earlier
+  const selectedEncoder = getVideoEncoder(downloadType, videoEncoder);
+  const videoFormats = getVideoFormats(videoInfo?.formats || []);
+  const audioFormats = getAudioFormats(videoInfo?.formats || []);
+  // Until the format list is known every quality is offered
+  const availableQualities = videoInfo?.formats?.length
+    ? getAvailableQualities(videoInfo.formats)
+    : ["2160p", "1440p", "1080p", "720p", "480p"];
+  const showFormatPicker = advancedFormats && !playlistMode && !!videoInfo?.formats?.length;
+  const selectedVideoFormat = videoFormats.find((format) => format.format_id === videoFormatId);
+
+  // The exact -f selection from the advanced picker, undefined when the quality settings apply
+  const getSelectedFormat = (info: VideoInfo | null): string | undefined => {
+    if (!advancedFormats || playlistMode || !info?.formats?.length) return undefined;
+    const find = (id: string) => info.formats?.find((format) => format.format_id === id);
+    return buildFormatSelection(downloadType, find(videoFormatId), find(audioFormatId));
+  };
+
+  // A new video starts with the best formats picked, and never keeps a quality it doesn't have
+  useEffect(() => {
+    if (!videoInfo?.formats?.length) return;
+    if (!videoFormats.some((format) => format.format_id === videoFormatId)) {
+      setVideoFormatId(videoFormats[0]?.format_id || "");
+    }
+    if (!audioFormats.some((format) => format.format_id === audioFormatId)) {
+      setAudioFormatId(getDefaultAudioFormat(audioFormats)?.format_id || "");
+    }
+    if (videoQuality !== "best" && !availableQualities.includes(videoQuality)) {
+      setVideoQuality("best");
+    }
+  }, [videoInfo]);
+
+  // Keep the language selection within what the current video offers
+  useEffect(() => {
+    if (playlistMode || !videoInfo) return;
+    const codes = availableSubtitleLanguages.map((language) => language.code);
+    const kept = subtitleLanguages.filter((code) => codes.includes(code));
+    const fallback = getDefaultSubtitleLanguage(availableSubtitleLanguages);
+    if (kept.length !== subtitleLanguages.length || (kept.length === 0 && fallback)) {
+      setSubtitleLanguages(kept.length > 0 ? kept : fallback ? [fallback] : []);
     }
-  }, [url, downloadType, videoQuality, compressionLevel, compressionCrf, mp3Quality, ytDlpPath]);
+  }, [videoInfo, subtitleSource, playlistMode]);
+
+  // Embedding and burning need a video stream, and burning a single output file
+  useEffect(() => {
+    if ((!isVideoDownload && subtitleMode !== "sidecar") || (playlistMode && subtitleMode === "burn")) {
+      setSubtitleMode("sidecar");
+    }
+  }, [isVideoDownload, playlistMode, subtitleMode]);
+
+  // Each encoder has its own CRF scale, so a custom value from another one may not be on offer
+  useEffect(() => {
+    if (!VIDEO_ENCODERS[selectedEncoder].crfOptions.includes(compressionCrf)) {
+      setCompressionCrf(VIDEO_ENCODERS[selectedEncoder].crf.medium);
+    }
+  }, [selectedEncoder]);
 
   // Apply preset configuration
   const applyPreset = (presetKey: string) => {
@@ -166,17 +289,41 @@ export default function Command() {
       return;
     }
 
-    const preset = presets[presetKey as keyof typeof presets];
+    const preset = presets.find((p) => p.id === presetKey);
     if (preset) {
       setSelectedPreset(presetKey);
       setDownloadType(preset.downloadType);
       setVideoQuality(preset.videoQuality);
       setCompressionLevel(preset.compressionLevel);
       setCompressionCrf(preset.compressionCrf);
+      setTargetSize(preset.targetSize || DEFAULT_TARGET_SIZE);
       setMp3Quality(preset.mp3Quality);
+      setVideoEncoder(getVideoEncoder(preset.downloadType, preset.videoEncoder));
+      setEncoderSpeed(preset.encoderSpeed || DEFAULT_ENCODER_SPEED);
+      setAudioBitrate(preset.audioBitrate || DEFAULT_AUDIO_BITRATE);
+      setPostProcessing(preset.postProcessing || DEFAULT_POST_PROCESSING);
     }
   };
 
+  // Presets can change in Manage Presets, so they are loaded rather than defined here
+  const loadPresets = async () => {
+    const [allPresets, defaultId] = await Promise.all([getPresets(), getDefaultPresetId()]);
+    setPresets(allPresets);
+    setDefaultPresetId(defaultId);
+  };
+
+  useEffect(() => {
+    loadPresets();
+  }, []);
+
+  // The default preset is applied once, when the form opens
+  const defaultAppliedRef = useRef(false);
+  useEffect(() => {
+    if (defaultAppliedRef.current || presets.length === 0) return;
+    defaultAppliedRef.current = true;
+    if (defaultPresetId) applyPreset(defaultPresetId);
+  }, [presets, defaultPresetId]);
+
   // Detect if current settings match a preset
   useEffect(() => {
     const currentSettings = {
@@ -184,35 +331,69 @@ export default function Command() {
       videoQuality,
       compressionLevel,
       compressionCrf,
+      targetSize,
       mp3Quality,
+      videoEncoder,
+      encoderSpeed,
+      audioBitrate,
+      postProcessing,
     };
 
-    for (const [key, preset] of Object.entries(presets)) {
-      if (key === "custom") continue;
-
-      if (
-        preset.downloadType === currentSettings.downloadType &&
-        preset.videoQuality === currentSettings.videoQuality &&
-        preset.compressionLevel === currentSettings.compressionLevel &&
-        preset.compressionCrf === currentSettings.compressionCrf &&
-        preset.mp3Quality === currentSettings.mp3Quality
-      ) {
-        setSelectedPreset(key);
-        return;
-      }
+    // Keep the chosen preset when another one happens to have the same settings
+    const current = presets.find((preset) => preset.id === selectedPreset);
+    if (current && findMatchingPreset([current], currentSettings)) return;
+    const match = findMatchingPreset(presets, currentSettings);
+    setSelectedPreset(match ? match.id : "custom");
+  }, [
+    presets,
+    downloadType,
+    videoQuality,
+    compressionLevel,
+    compressionCrf,
+    targetSize,
+    mp3Quality,
+    videoEncoder,
+    encoderSpeed,
+    audioBitrate,
+    postProcessing,
+  ]);
+
+  // Returns the clip to download, or undefined for the whole video (and for playlists)
+  const getClip = (): ClipSettings | undefined => {
+    if (playlistMode || (!clipStart.trim() && !clipEnd.trim())) return undefined;
+    const start = clipStart.trim() ? parseTimeInput(clipStart) : undefined;
+    const end = clipEnd.trim() ? parseTimeInput(clipEnd) : undefined;
+    if (start === null || end === null) return undefined;
+    return { start: start || undefined, end, exactCuts };
+  };
+
+  const validateClip = (): boolean => {
+    const errors: { start?: string; end?: string } = {};
+    const start = clipStart.trim() ? parseTimeInput(clipStart) : 0;
+    const end = clipEnd.trim() ? parseTimeInput(clipEnd) : undefined;
+    if (start === null) errors.start = "Use a time like 1:23, 83 or 1m23s";
+    if (end === null) errors.end = "Use a time like 2:05, 125 or 2m5s";
+    if (typeof start === "number" && typeof end === "number" && end <= start) {
+      errors.end = "End must be after the start";
     }
-    setSelectedPreset("custom");
-  }, [downloadType, videoQuality, compressionLevel, compressionCrf, mp3Quality]);
+    if (videoInfo?.duration && typeof start === "number" && start >= videoInfo.duration) {
+      errors.start = "Start is past the end of the video";
+    }
+    setClipError(errors);
+    return !errors.start && !errors.end;
+  };
 
   const validateUrl = (value: string): boolean => {
     if (!value) {
       setUrlError("URL cannot be empty. Please enter a YouTube video URL.");
       return false;
     }
-    // Stricter regex for form validation
-    const strictYoutubeRegex = /^(https?:\/\/)?(www\.)?(youtube\.com\/watch\?v=|youtu\.be\/)[\w-]+(\S+)?$/;
-    if (!strictYoutubeRegex.test(value)) {
-      setUrlError("Please enter a valid YouTube URL (e.g., youtube.com/watch?v=... or youtu.be/...).");
+    if (!parseMediaUrl(value, urlOptions)) {
+      setUrlError(
+        urlOptions.anySite
+          ? "Please enter a valid http(s) URL of a video, playlist or channel."
+          : "Please enter a valid YouTube URL (e.g., youtube.com/watch?v=..., youtu.be/..., a Short, a playlist or a channel).",
+      );
       return false;
     }
     setUrlError(undefined);
@@ -223,448 +404,140 @@ export default function Command() {
   const getVideoInfoAndEstimate = async (videoUrl: string) => {
     if (!ytDlpPath || !videoUrl || !validateUrl(videoUrl)) {
       setVideoInfo(null);
+      setVideoInfoError(undefined);
+      setPlaylistInfo(null);
       setEstimatedSize("");
       return;
     }
 
     try {
-      const infoArgs = [videoUrl, "--dump-json", "--no-playlist"];
-      const result = await execa(ytDlpPath, infoArgs, { timeout: 30000 });
-      const info = JSON.parse(result.stdout);
-      setVideoInfo(info);
-
-      // Calculate estimated file size
-      const duration = info.duration || 0; // in seconds
-      let estimatedMB = 0;
-
-      if (downloadType === "mp4_video_audio" || downloadType === "mp4_video_only") {
-        // Video bitrate estimation based on quality
-        let videoBitrate = 0; // kbps
-        if (videoQuality === "best" || videoQuality === "2160p") {
-          videoBitrate = 8000; // 4K typically ~8Mbps
-        } else if (videoQuality === "1440p") {
-          videoBitrate = 4000; // 2K typically ~4Mbps
-        } else if (videoQuality === "1080p") {
-          videoBitrate = 2000; // 1080p typically ~2Mbps
-        } else if (videoQuality === "720p") {
-          videoBitrate = 1000; // 720p typically ~1Mbps
-        } else if (videoQuality === "480p") {
-          videoBitrate = 500; // 480p typically ~500kbps
-        }
-
-        // Apply compression factor
-        if (compressionLevel !== "none") {
-          let compressionFactor = 1;
-          switch (compressionLevel) {
-            case "light":
-              compressionFactor = 0.8; // 20% reduction
-              break;
-            case "medium":
-              compressionFactor = 0.6; // 40% reduction
-              break;
-            case "high":
-              compressionFactor = 0.4; // 60% reduction
-              break;
-            case "custom": {
-              const crf = parseInt(compressionCrf);
-              // CRF to compression factor approximation
-              compressionFactor = Math.max(0.3, 1 - (crf - 18) * 0.04);
-              break;
-            }
+      let duration = 0; // in seconds, of what will actually be downloaded
+      if (playlistMode) {
+        let info = playlistCacheRef.current[videoUrl];
+        let selected = new Set(selectedItems.map(Number));
+        if (!info) {
+          setIsFetchingPlaylist(true);
+          try {
+            info = await fetchPlaylistInfo(ytDlpPath, videoUrl);
+          } finally {
+            setIsFetchingPlaylist(false);
           }
-          videoBitrate *= compressionFactor;
+          playlistCacheRef.current[videoUrl] = info;
+          // A freshly loaded playlist starts with every entry selected
+          selected = new Set(info.entries.map((entry) => entry.index));
+          setSelectedItems([...selected].map(String));
+          setItemRange("");
+          setItemRangeError(undefined);
         }
-
-        estimatedMB = (videoBitrate * duration) / (8 * 1024); // Convert kbps to MB
-
-        // Add audio size for video+audio
-        if (downloadType === "mp4_video_audio") {
-          const audioBitrate = compressionLevel !== "none" ? 128 : 256; // kbps
-          estimatedMB += (audioBitrate * duration) / (8 * 1024);
-        }
-      } else if (downloadType === "mp3_audio") {
-        // MP3 audio estimation
-        let audioBitrate = 128; // default
-        switch (mp3Quality) {
-          case "0":
-            audioBitrate = 245;
-            break;
-          case "2":
-            audioBitrate = 190;
-            break;
-          case "5":
-            audioBitrate = 130;
-            break;
-          case "320K":
-            audioBitrate = 320;
-            break;
+        setPlaylistInfo(info);
+        setVideoInfo(null);
+        duration = info.entries
+          .filter((entry) => selected.has(entry.index))
+          .reduce((total, entry) => total + (entry.duration || 0), 0);
+      } else {
+        let info = videoInfoCacheRef.current[videoUrl];
+        if (!info) {
+          info = await fetchVideoInfo(ytDlpPath, videoUrl);
+          videoInfoCacheRef.current[videoUrl] = info;
         }
-        estimatedMB = (audioBitrate * duration) / (8 * 1024);
-      } else if (downloadType === "m4a_audio") {
-        // M4A typically ~256kbps
-        estimatedMB = (256 * duration) / (8 * 1024);
+        setVideoInfo(info);
+        setVideoInfoError(undefined);
+        setPlaylistInfo(null);
+        duration = getClipDuration(getClip(), info.duration || 0);
       }
 
-      // Format the estimated size
-      if (estimatedMB < 1) {
-        setEstimatedSize(`~${Math.round(estimatedMB * 1024)} KB`);
-      } else if (estimatedMB < 1024) {
-        setEstimatedSize(`~${Math.round(estimatedMB)} MB`);
-      } else {
-        setEstimatedSize(`~${(estimatedMB / 1024).toFixed(1)} GB`);
-      }
+      const estimate = estimateDownloadSize(
+        playlistMode ? null : videoInfoCacheRef.current[videoUrl],
+        {
+          downloadType,
+          videoQuality,
+          mp3Quality,
+          compressionLevel,
+          compressionCrf,
+          targetSize,
+          videoEncoder,
+          audioBitrate,
+          format: getSelectedFormat(playlistMode ? null : videoInfoCacheRef.current[videoUrl]),
+        },
+        duration,
+      );
+      // Every playlist entry is fitted to the target size on its own
+      setEstimatedSize(
+        playlistMode && estimate.target ? `≤ ${targetSize} MB per file (target)` : formatEstimate(estimate),
+      );
     } catch (error) {
       console.error("Error getting video info:", error);
       setVideoInfo(null);
+      setVideoInfoError(playlistMode ? undefined : describeDownloadError(error, "", ytDlpPath));
+      setPlaylistInfo(null);
       setEstimatedSize("");
     }
   };
 
-  let fullOutput = "";
-  const progressRegex = /\[download\]\s+(?<percentage>\d+\.\d+)%/;
-  const sizeRegex = /\[download\]\s+(?<downloaded>[\d.]+\w+)\s+of\s+(?<total>[\d.]+\w+)\s+at\s+(?<speed>[\d.]+\w+\/s)/;
-  let toast: Toast;
-
-  const parseSize = (sizeStr: string): number => {
-    const match = sizeStr.match(/([\d.]+)(\w+)/);
-    if (!match) return 0;
-
-    const value = parseFloat(match[1]);
-    const unit = match[2].toLowerCase();
-
-    switch (unit) {
-      case "kb":
-      case "kib":
-        return value / 1024;
-      case "mb":
-      case "mib":
-        return value;
-      case "gb":
-      case "gib":
-        return value * 1024;
-      default:
-        return value / 1024 / 1024; // assume bytes
-    }
-  };
-
-  const parseSpeed = (speedStr: string): number => {
-    const match = speedStr.match(/([\d.]+)(\w+)\/s/);
-    if (!match) return 0;
-
-    const value = parseFloat(match[1]);
-    const unit = match[2].toLowerCase();
-
-    switch (unit) {
-      case "kb":
-      case "kib":
-        return value / 1024;
-      case "mb":
-      case "mib":
-        return value;
-      case "gb":
-      case "gib":
-        return value * 1024;
-      default:
-        return value / 1024 / 1024; // assume bytes
-    }
-  };
-
-  const streamOutput = (chunk: Buffer | string) => {
-    const data = chunk.toString();
-    fullOutput += data;
-
-    const progressMatch = progressRegex.exec(data);
-    const sizeMatch = sizeRegex.exec(data);
-
-    if (progressMatch && progressMatch.groups?.percentage) {
-      const percentage = parseFloat(progressMatch.groups.percentage);
-
-      // Extract size and speed information if available
-      let downloadedMB = 0;
-      let totalMB = 0;
-      let speedMBps = 0;
-      let etaSeconds = 0;
-
-      if (sizeMatch && sizeMatch.groups) {
-        downloadedMB = parseSize(sizeMatch.groups.downloaded);
-        totalMB = parseSize(sizeMatch.groups.total);
-        speedMBps = parseSpeed(sizeMatch.groups.speed);
-
-        // Calculate ETA
-        const remainingMB = totalMB - downloadedMB;
-        etaSeconds = speedMBps > 0 ? remainingMB / speedMBps : 0;
-      }
-
-      // Update progress state
-      if (toast) {
-        let progressMsg = `Downloading... ${percentage.toFixed(1)}%`;
-
-        if (speedMBps > 0) {
-          progressMsg += ` | ${speedMBps.toFixed(1)} MB/s`;
-        }
-
-        if (etaSeconds > 0 && etaSeconds < 3600) {
-          // Only show ETA if less than 1 hour
-          const minutes = Math.floor(etaSeconds / 60);
-          const seconds = Math.floor(etaSeconds % 60);
-          progressMsg += ` | ETA ${minutes}:${seconds.toString().padStart(2, "0")}`;
-        }
-
-        if (downloadedMB > 0 && totalMB > 0) {
-          progressMsg += ` | ${downloadedMB.toFixed(1)}/${totalMB.toFixed(1)} MB`;
-        }
-
-        toast.message = progressMsg;
-      }
-    }
-  };
-
   const handleSubmit = async () => {
-    if (!validateUrl(url)) return;
+    const templateError = validateFilenameTemplate(filenameTemplate);
+    setFilenameTemplateError(templateError);
+    if (!validateUrl(url) || !validateClip() || templateError) return;
     if (!ytDlpPath || !ffmpegPath) {
       await showToast(Toast.Style.Failure, "Missing Dependencies", "yt-dlp or ffmpeg not found.");
       return;
     }
+    if (playlistMode && (!playlistInfo || selectedItems.length === 0)) {
+      await showToast(
+        Toast.Style.Failure,
+        "Nothing to Download",
+        playlistInfo ? "Select at least one playlist item." : "Playlist entries are still loading.",
+      );
+      return;
+    }
 
-    setIsLoading(true);
-    fullOutput = ""; // Reset for each submission
-
-    // Function to handle cancellation
-    const cancelDownload = () => {
-      if (activeProcessRef.current) {
-        activeProcessRef.current.kill(); // Use kill instead of cancel
-        // Toast update for cancellation is handled in the main catch block via error.isCanceled
-      }
+    const settings: DownloadSettings = {
+      downloadType,
+      videoQuality,
+      mp3Quality,
+      compressionLevel,
+      compressionCrf,
+      targetSize,
+      videoEncoder: selectedEncoder,
+      encoderSpeed,
+      audioBitrate,
+      outputPath,
+      format: getSelectedFormat(videoInfo),
+      filename: { template: filenameTemplate.trim(), collisionPolicy, safeNames: safeFilenames },
+      postProcessing,
     };
-
-    toast = await showToast({
-      style: Toast.Style.Animated,
-      title: "Starting Download...",
-      message: `Preparing to download ${url}`,
-      primaryAction: {
-        title: "Cancel Download",
-        onAction: cancelDownload,
-      },
-    });
-
-    try {
-      const args = [];
-      const outputTemplate = path.join(outputPath, "%(title)s.%(ext)s");
-      let finalExtension = "";
-
-      if (downloadType === "mp4_video_audio") {
-        finalExtension = "mp4";
-        let formatString;
-        if (videoQuality !== "best") {
-          const height = videoQuality.replace("p", "");
-          // More flexible format selection with multiple fallbacks
-          formatString = [
-            `bestvideo[height<=${height}][ext=mp4]+bestaudio[ext=m4a]`,
-            `bestvideo[height<=${height}][ext=mp4]+bestaudio`,
-            `bestvideo[height<=${height}]+bestaudio[ext=m4a]`,
-            `bestvideo[height<=${height}]+bestaudio`,
-            `best[height<=${height}][ext=mp4]`,
-            `best[height<=${height}]`,
-            `best[ext=mp4]`,
-            `best`,
-          ].join("/");
-        } else {
-          // More flexible format selection for best quality
-          formatString = [
-            `bestvideo[ext=mp4]+bestaudio[ext=m4a]`,
-            `bestvideo[ext=mp4]+bestaudio`,
-            `bestvideo+bestaudio[ext=m4a]`,
-            `bestvideo+bestaudio`,
-            `best[ext=mp4]`,
-            `best`,
-          ].join("/");
-        }
-        args.push("-f", formatString);
-        // Always try to merge to mp4 if possible
-        args.push("--merge-output-format", "mp4");
-        if (ffmpegPath && ffmpegPath !== "ffmpeg") {
-          args.push("--ffmpeg-location", ffmpegPath);
-        }
-
-        // Add compression settings for video+audio
-        if (compressionLevel !== "none") {
-          let crfValue = "23"; // default
-          switch (compressionLevel) {
-            case "light":
-              crfValue = "20";
-              break;
-            case "medium":
-              crfValue = "23";
-              break;
-            case "high":
-              crfValue = "28";
-              break;
-            case "custom":
-              crfValue = compressionCrf;
-              break;
-          }
-          args.push("--postprocessor-args", `ffmpeg:-c:v libx264 -crf ${crfValue} -c:a aac -b:a 128k`);
-        }
-      } else if (downloadType === "mp4_video_only") {
-        finalExtension = "mp4";
-        let formatString;
-        if (videoQuality !== "best") {
-          const height = videoQuality.replace("p", "");
-          formatString = [
-            `bestvideo[height<=${height}][ext=mp4]`,
-            `bestvideo[height<=${height}]`,
-            `best[height<=${height}][ext=mp4]`,
-            `best[height<=${height}]`,
-          ].join("/");
-        } else {
-          formatString = [`bestvideo[ext=mp4]`, `bestvideo`, `best[ext=mp4]`, `best`].join("/");
-        }
-        args.push("-f", formatString);
-        args.push("--merge-output-format", "mp4");
-        if (ffmpegPath && ffmpegPath !== "ffmpeg") {
-          args.push("--ffmpeg-location", ffmpegPath);
-        }
-
-        // Add compression settings for video only
-        if (compressionLevel !== "none") {
-          let crfValue = "23"; // default
-          switch (compressionLevel) {
-            case "light":
-              crfValue = "20";
-              break;
-            case "medium":
-              crfValue = "23";
-              break;
-            case "high":
-              crfValue = "28";
-              break;
-            case "custom":
-              crfValue = compressionCrf;
-              break;
-          }
-          args.push("--postprocessor-args", `ffmpeg:-c:v libx264 -crf ${crfValue}`);
-        }
-      } else if (downloadType === "mp3_audio") {
-        finalExtension = "mp3";
-        args.push("-x", "--audio-format", "mp3", "--audio-quality", mp3Quality);
-        if (ffmpegPath && ffmpegPath !== "ffmpeg") args.push("--ffmpeg-location", ffmpegPath);
-      } else if (downloadType === "m4a_audio") {
-        finalExtension = "m4a";
-        args.push("-x", "--audio-format", "m4a");
-        if (ffmpegPath && ffmpegPath !== "ffmpeg") args.push("--ffmpeg-location", ffmpegPath);
-      }
-
-      args.push(url, "-o", outputTemplate, "--no-playlist", "--progress");
-
-      // Add additional arguments to handle YouTube's recent changes
-      args.push("--extractor-retries", "3");
-      args.push("--fragment-retries", "3");
-      args.push("--retry-sleep", "1");
-      // Use different clients to avoid nsig issues
-      args.push("--extractor-args", "youtube:player_client=android,web");
-
-      activeProcessRef.current = execa(ytDlpPath, args, { timeout: 900000 });
-      activeProcessRef.current.stdout?.on("data", streamOutput);
-      activeProcessRef.current.stderr?.on("data", streamOutput);
-
-      await activeProcessRef.current;
-      activeProcessRef.current = null; // Clear after successful completion
-
-      toast.style = Toast.Style.Success;
-      toast.title = "Download Complete!";
-      let downloadedFileName = "your file";
-      const destMatch = fullOutput.match(/\[(?:download|ExtractAudio)\] Destination: (.*)/i);
-      if (destMatch && destMatch[1]) {
-        downloadedFileName = path.basename(destMatch[1].trim());
-      } else {
-        const titleMatch = fullOutput.match(/\[info\] (.*?)\[/s);
-        if (titleMatch && titleMatch[1]) {
-          downloadedFileName = titleMatch[1].trim().split("\n")[0] + "." + finalExtension;
-        } else {
-          downloadedFileName = "Downloaded_File." + finalExtension;
-        }
-      }
-      toast.message = `${downloadedFileName} saved to ${path.basename(outputPath)}.`;
-      toast.primaryAction = undefined; // Remove cancel action on success
-
-      await new Promise((resolve) => setTimeout(resolve, 300));
-      await closeMainWindow({ popToRootType: PopToRootType.Immediate });
-    } catch (error: unknown) {
-      const err = error as {
-        isCanceled?: boolean;
-        code?: string;
-        command?: string;
-        isTimeout?: boolean;
-        durationMs?: number;
-        stderr?: string;
-        stdout?: string;
-        shortMessage?: string;
-        message?: string;
+    const clip = getClip();
+    if (clip) {
+      settings.clip = clip;
+    } else if (splitChapters && !playlistMode && videoInfo?.chapters?.length) {
+      settings.splitChapters = true;
+    }
+    if (subtitlesEnabled && subtitleLanguages.length > 0) {
+      settings.subtitles = {
+        languages: subtitleLanguages,
+        source: subtitleSource,
+        format: subtitleFormat,
+        mode: subtitleMode,
+      };
+    }
+    if (playlistMode && playlistInfo) {
+      settings.playlist = {
+        title: playlistInfo.title,
+        items:
+          selectedItems.length < playlistInfo.entries.length ? formatItemRange(selectedItems.map(Number)) : undefined,
       };
-      if (!err.isCanceled) {
-        // Don't log an error if it was a user cancellation
-        console.error("Download error:", error);
-      }
-      activeProcessRef.current = null; // Clear on error/cancellation
-      if (toast) {
-        toast.style = err.isCanceled ? Toast.Style.Success : Toast.Style.Failure; // Or .Default for cancelled
-        toast.title = err.isCanceled ? "Download Cancelled" : "Download Failed";
-        let userMessage = "Failed to download video.";
-        let errorDetailsForClipboard = `Error: ${err.message || "Unknown error"}`;
-        if (fullOutput && !err.isCanceled) {
-          // Don't include full output for cancellation message
-          errorDetailsForClipboard += `\n\nOutput:\n${fullOutput}`;
-        }
-
-        if (err.isCanceled) {
-          userMessage = "Download was cancelled by the user.";
-          errorDetailsForClipboard = userMessage;
-        } else if (err.code === "ENOENT") {
-          userMessage = `Failed to execute ${err.command?.split(" ")[0]}. Path: ${ytDlpPath}`;
-          errorDetailsForClipboard = `ENOENT: Command not found. Tried to run '${err.command?.split(" ")[0]}' at path '${ytDlpPath}'. Ensure it is correctly installed and accessible.`;
-        } else if (err.isTimeout) {
-          userMessage = "Download timed out.";
-          errorDetailsForClipboard = `Timeout: The command '${err.command}' timed out after ${err.durationMs}ms.`;
-        } else if (fullOutput || err.stderr || err.stdout) {
-          const out = fullOutput || err.stderr || err.stdout;
-          if (out && out.includes("Unsupported URL")) userMessage = "Unsupported URL.";
-          else if (out && out.includes("Video unavailable")) userMessage = "Video unavailable.";
-          else if (out && out.includes("Requested format is not available")) {
-            userMessage = "Video format not available. Try a different quality setting.";
-          } else if (out && out.includes("nsig extraction failed")) {
-            userMessage = "YouTube playback issue detected. The video was likely still downloaded successfully.";
-          } else if (out && out.includes("Some formats may be missing")) {
-            userMessage = "Some video qualities unavailable, but download should still work.";
-          } else if (out && out.includes("HTTP Error 403")) {
-            userMessage = "Access denied by YouTube. Try again in a few minutes.";
-          } else if (out && out.includes("Private video")) {
-            userMessage = "This video is private and cannot be downloaded.";
-          } else if (out && out.includes("This live event has ended")) {
-            userMessage = "This live stream has ended and may not be available for download.";
-          } else if (out) {
-            const errorLine = out.split("\n").find((l: string) => l.toLowerCase().startsWith("error:"));
-            userMessage = errorLine || "An error occurred. Check console.";
-          }
-        } else if (err.shortMessage) {
-          userMessage = err.shortMessage;
-        }
-        toast.message = userMessage.substring(0, 250);
-
-        if (err.isCanceled) {
-          toast.primaryAction = undefined; // No actions if cancelled by user
-        } else {
-          toast.primaryAction = {
-            title: "Copy Error Details",
-            onAction: async () => {
-              await Clipboard.copy(errorDetailsForClipboard);
-              await showToast(Toast.Style.Success, "Error details copied to clipboard.");
-            },
-          };
-        }
-      }
-    } finally {
-      setIsLoading(false);
     }
+
+    // Submitting only queues the download, so the form stays usable for the next URL
+    const title = (playlistMode ? playlistInfo?.title : videoInfo?.title) || normalizedUrl;
+    const duration = playlistMode
+      ? playlistInfo?.entries
+          .filter((entry) => selectedItems.includes(String(entry.index)))
+          .reduce((total, entry) => total + (entry.duration || 0), 0)
+      : videoInfo?.duration && getClipDuration(clip, videoInfo.duration);
+    const job = await enqueueDownload(normalizedUrl, title, settings, duration || undefined);
+    await trackJobInToast(job);
+    processQueue(ytDlpPath, ffmpegPath);
   };
 
   if (isLoading && (!ytDlpPath || !ffmpegPath)) return <Form isLoading={true} />;
@@ -673,43 +546,92 @@ export default function Command() {
       <Form
         actions={
           <ActionPanel>
-            {!ytDlpPath && (
-              <Action.OpenInBrowser title="Install Yt-Dlp" url="https://formulae.brew.sh/formula/yt-dlp" />
-            )}
-            {!ffmpegPath && (
-              <Action.OpenInBrowser title="Install Ffmpeg" url="https://formulae.brew.sh/formula/ffmpeg" />
-            )}
+            {!ytDlpPath && <Action.OpenInBrowser title="Install Yt-Dlp" url={INSTALL_GUIDES["yt-dlp"]} />}
+            {!ffmpegPath && <Action.OpenInBrowser title="Install Ffmpeg" url={INSTALL_GUIDES.ffmpeg} />}
+            <Action
+              title="Check Setup"
+              icon={Icon.CheckList}
+              onAction={() => launchCommand({ name: "check-setup", type: LaunchType.UserInitiated })}
+            />
+            <Action title="Open Extension Preferences" icon={Icon.Gear} onAction={openExtensionPreferences} />
           </ActionPanel>
         }
       >
         <Form.Description text="⚠️ Prerequisites Missing" />
-        {!ytDlpPath && <Form.Description text="• yt-dlp not found. Install and restart." />}
-        {!ffmpegPath && <Form.Description text="• ffmpeg not found. Install and restart." />}
+        {!ytDlpPath && <Form.Description text="• yt-dlp not found. Install it or set its path in the preferences." />}
+        {!ffmpegPath && <Form.Description text="• ffmpeg not found. Install it or set its path in the preferences." />}
       </Form>
     );
   }
 
   return (
     <Form
-      isLoading={isLoading}
+      isLoading={isLoading || isFetchingPlaylist}
       actions={
         <ActionPanel>
           <Action.SubmitForm title="Download Video" onSubmit={handleSubmit} />
           <Action
-            title="Select Output Folder"
-            onAction={async () => {
-              try {
-                const result = await execa("osascript", [
-                  "-e",
-                  'tell application "System Events" to choose folder with prompt "Select download folder:"',
-                ]);
-                const selectedPath = result.stdout.replace("alias ", "").replace(/:/g, "/").replace("Macintosh HD", "");
-                setOutputPath(selectedPath);
-              } catch {
-                // User cancelled or error occurred
-                console.log("Folder selection cancelled");
+            title="Open Downloads"
+            shortcut={{ modifiers: ["cmd"], key: "d" }}
+            onAction={() => launchCommand({ name: "downloads", type: LaunchType.UserInitiated })}
+          />
+          {!playlistMode && linkStart && (
+            // A link shared "at 1:23" still downloads the whole video unless the clip is started there on purpose
+            <Action
+              title="Start at Link Timestamp"
+              icon={Icon.Clock}
+              shortcut={{ modifiers: ["cmd"], key: "t" }}
+              onAction={() => {
+                setClipStart(formatDuration(linkStart));
+                setClipError({});
+              }}
+            />
+          )}
+          {!playlistMode && (videoInfo || videoInfoError) && (
+            <Action.Push
+              title="Show Video Info"
+              icon={Icon.Info}
+              shortcut={{ modifiers: ["cmd"], key: "i" }}
+              target={
+                <VideoInfoDetail
+                  url={normalizedUrl}
+                  info={videoInfo}
+                  error={videoInfoError}
+                  onDownload={videoInfo ? handleSubmit : undefined}
+                />
               }
-            }}
+            />
+          )}
+          <Action.Push
+            title="Save as Preset"
+            icon={Icon.SaveDocument}
+            shortcut={Keyboard.Shortcut.Common.Save}
+            target={
+              <PresetForm
+                initialSettings={{
+                  downloadType,
+                  videoQuality,
+                  compressionLevel,
+                  compressionCrf,
+                  targetSize,
+                  mp3Quality,
+                  videoEncoder,
+                  encoderSpeed,
+                  audioBitrate,
+                  postProcessing,
+                }}
+                onSave={async (preset) => {
+                  await loadPresets();
+                  setSelectedPreset(preset.id);
+                }}
+              />
+            }
+          />
+          <Action
+            title="Manage Presets"
+            icon={Icon.List}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+            onAction={() => launchCommand({ name: "manage-presets", type: LaunchType.UserInitiated })}
           />
           <Action title="Reset to Downloads Folder" onAction={() => setOutputPath(downloadsPath)} />
         </ActionPanel>
@@ -717,64 +639,189 @@ export default function Command() {
     >
       <Form.TextField
         id="url"
-        title="YouTube URL"
+        title={urlOptions.anySite ? "Video URL" : "YouTube URL"}
         placeholder="e.g., https://www.youtube.com/watch?v=dQw4w9WgXcQ"
         value={url}
         error={urlError}
         onChange={setUrl}
         onBlur={(e) => validateUrl(e.target.value || "")}
       />
+      {getPlaylistKind(normalizedUrl) && !isPlaylistOnlyUrl(normalizedUrl) && (
+        <Form.Checkbox
+          id="playlistMode"
+          label="Download the entire playlist"
+          value={playlistMode}
+          onChange={setPlaylistMode}
+        />
+      )}
+      {playlistMode && isFetchingPlaylist && <Form.Description text="Loading playlist entries..." />}
+      {playlistMode && playlistInfo && (
+        <>
+          <Form.Description
+            text={`📃 ${playlistInfo.title} | ${playlistInfo.entries.length} items | Selected: ${selectedItems.length}`}
+          />
+          <Form.TextField
+            id="itemRange"
+            title="Item Range"
+            placeholder="e.g., 1-5, 8, 10-"
+            value={itemRange}
+            error={itemRangeError}
+            onChange={(value) => {
+              setItemRange(value);
+              if (!value.trim()) {
+                setItemRangeError(undefined);
+                setSelectedItems(playlistInfo.entries.map((entry) => String(entry.index)));
+                return;
+              }
+              const indices = parseItemRange(value, playlistInfo.entries.length);
+              if (!indices || indices.length === 0) {
+                setItemRangeError("Use item numbers and ranges, e.g. 1-5, 8");
+                return;
+              }
+              setItemRangeError(undefined);
+              setSelectedItems(indices.map(String));
+            }}
+          />
+          <Form.TagPicker id="playlistItems" title="Items" value={selectedItems} onChange={setSelectedItems}>
+            {playlistInfo.entries.map((entry) => (
+              <Form.TagPicker.Item
+                key={entry.index}
+                value={String(entry.index)}
+                title={`${entry.index}. ${entry.title}${entry.duration ? ` (${formatDuration(entry.duration)})` : ""}`}
+              />
+            ))}
+          </Form.TagPicker>
+        </>
+      )}
       <Form.Dropdown id="preset" title="Quick Presets" value={selectedPreset} onChange={applyPreset}>
-        {Object.entries(presets).map(([key, preset]) => (
-          <Form.Dropdown.Item key={key} value={key} title={preset.name} />
+        {presets.map((preset) => (
+          <Form.Dropdown.Item key={preset.id} value={preset.id} title={preset.name} />
         ))}
+        <Form.Dropdown.Item value="custom" title="🔧 Custom" />
       </Form.Dropdown>
-      {selectedPreset !== "custom" && (
-        <Form.Description text={`${presets[selectedPreset as keyof typeof presets].description}`} />
-      )}
+      <Form.Description
+        text={presets.find((preset) => preset.id === selectedPreset)?.description || "Manual settings"}
+      />
       <Form.Dropdown id="downloadType" title="Download Type" value={downloadType} onChange={setDownloadType}>
-        <Form.Dropdown.Item value="mp4_video_audio" title="MP4 (Video + Audio)" />
-        <Form.Dropdown.Item value="mp4_video_only" title="MP4 (Video Only)" />
-        <Form.Dropdown.Item value="mp3_audio" title="MP3 Audio" />
-        <Form.Dropdown.Item value="m4a_audio" title="M4A Audio (Original Quality)" />
+        {["Video", "Audio"].map((section) => (
+          <Form.Dropdown.Section key={section} title={section}>
+            {DOWNLOAD_TYPES.filter((type) => type.section === section).map((type) => (
+              <Form.Dropdown.Item key={type.value} value={type.value} title={type.title} />
+            ))}
+          </Form.Dropdown.Section>
+        ))}
       </Form.Dropdown>
-      {(downloadType === "mp4_video_audio" || downloadType === "mp4_video_only") && (
+      {isVideoDownload && !showFormatPicker && (
         <Form.Dropdown id="videoQuality" title="Video Quality" value={videoQuality} onChange={setVideoQuality}>
           <Form.Dropdown.Item value="best" title="Best Available" />
-          <Form.Dropdown.Item value="2160p" title="2160p (4K)" />
-          <Form.Dropdown.Item value="1440p" title="1440p (2K)" />
-          <Form.Dropdown.Item value="1080p" title="1080p (Full HD)" />
-          <Form.Dropdown.Item value="720p" title="720p (HD)" />
-          <Form.Dropdown.Item value="480p" title="480p (SD)" />
+          {availableQualities.includes("2160p") && <Form.Dropdown.Item value="2160p" title="2160p (4K)" />}
+          {availableQualities.includes("1440p") && <Form.Dropdown.Item value="1440p" title="1440p (2K)" />}
+          {availableQualities.includes("1080p") && <Form.Dropdown.Item value="1080p" title="1080p (Full HD)" />}
+          {availableQualities.includes("720p") && <Form.Dropdown.Item value="720p" title="720p (HD)" />}
+          {availableQualities.includes("480p") && <Form.Dropdown.Item value="480p" title="480p (SD)" />}
+        </Form.Dropdown>
+      )}
+      {!playlistMode && !!videoInfo?.formats?.length && (
+        <Form.Checkbox
+          id="advancedFormats"
+          label="Pick exact formats"
+          value={advancedFormats}
+          onChange={setAdvancedFormats}
+        />
+      )}
+      {showFormatPicker && isVideoDownload && (
+        <Form.Dropdown id="videoFormat" title="Video Format" value={videoFormatId} onChange={setVideoFormatId}>
+          {[...new Set(videoFormats.map((format) => format.height || 0))].map((height) => (
+            <Form.Dropdown.Section key={height} title={height ? `${height}p` : "Other"}>
+              {videoFormats
+                .filter((format) => (format.height || 0) === height)
+                .map((format) => (
+                  <Form.Dropdown.Item
+                    key={format.format_id}
+                    value={format.format_id}
+                    title={describeVideoFormat(format, videoInfo?.duration)}
+                  />
+                ))}
+            </Form.Dropdown.Section>
+          ))}
         </Form.Dropdown>
       )}
-      {(downloadType === "mp4_video_audio" || downloadType === "mp4_video_only") && (
+      {showFormatPicker &&
+        !isVideoOnlyType(downloadType) &&
+        !(selectedVideoFormat && hasAudio(selectedVideoFormat) && isVideoDownload) &&
+        audioFormats.length > 0 && (
+          <Form.Dropdown id="audioFormat" title="Audio Track" value={audioFormatId} onChange={setAudioFormatId}>
+            {[...new Set(audioFormats.map((format) => format.language || ""))].map((language) => (
+              <Form.Dropdown.Section key={language} title={language || "Unknown Language"}>
+                {audioFormats
+                  .filter((format) => (format.language || "") === language)
+                  .map((format) => (
+                    <Form.Dropdown.Item
+                      key={format.format_id}
+                      value={format.format_id}
+                      title={describeAudioFormat(format, videoInfo?.duration)}
+                    />
+                  ))}
+              </Form.Dropdown.Section>
+            ))}
+          </Form.Dropdown>
+        )}
+      {isVideoDownload && (
         <Form.Dropdown
           id="compressionLevel"
           title="Compression Level"
           value={compressionLevel}
           onChange={setCompressionLevel}
         >
-          <Form.Dropdown.Item value="none" title="No Compression (Original)" />
+          <Form.Dropdown.Item value="none" title="No Compression (Remux Only)" />
           <Form.Dropdown.Item value="light" title="Light Compression (High Quality)" />
           <Form.Dropdown.Item value="medium" title="Medium Compression (Balanced)" />
           <Form.Dropdown.Item value="high" title="High Compression (Smaller Files)" />
           <Form.Dropdown.Item value="custom" title="Custom CRF Value" />
+          <Form.Dropdown.Item value="target" title="Target Size (Fit Under a Limit)" />
         </Form.Dropdown>
       )}
-      {(downloadType === "mp4_video_audio" || downloadType === "mp4_video_only") && compressionLevel === "custom" && (
+      {container && compressionLevel !== "none" && (
+        <Form.Dropdown
+          id="videoEncoder"
+          title="Video Encoder"
+          value={selectedEncoder}
+          onChange={(value) => setVideoEncoder(value as VideoEncoder)}
+        >
+          {getEncodersForContainer(container).map((encoder) => (
+            <Form.Dropdown.Item key={encoder} value={encoder} title={VIDEO_ENCODERS[encoder].title} />
+          ))}
+        </Form.Dropdown>
+      )}
+      {isVideoDownload && compressionLevel === "custom" && (
         <Form.Dropdown
           id="compressionCrf"
           title="CRF Value (Lower = Better Quality)"
           value={compressionCrf}
           onChange={setCompressionCrf}
         >
-          <Form.Dropdown.Item value="18" title="18 (Visually Lossless)" />
-          <Form.Dropdown.Item value="20" title="20 (Excellent Quality)" />
-          <Form.Dropdown.Item value="23" title="23 (High Quality - Default)" />
-          <Form.Dropdown.Item value="25" title="25 (Good Quality)" />
-          <Form.Dropdown.Item value="28" title="28 (Medium Quality)" />
-          <Form.Dropdown.Item value="30" title="30 (Lower Quality)" />
+          {getCrfOptions(selectedEncoder).map((option) => (
+            <Form.Dropdown.Item key={option.value} value={option.value} title={option.title} />
+          ))}
+        </Form.Dropdown>
+      )}
+      {isVideoDownload && compressionLevel === "target" && (
+        <Form.Dropdown id="targetSize" title="Target Size" value={targetSize} onChange={setTargetSize}>
+          {TARGET_SIZES.map((size) => (
+            <Form.Dropdown.Item key={size.value} value={size.value} title={size.title} />
+          ))}
+        </Form.Dropdown>
+      )}
+      {isVideoDownload && compressionLevel !== "none" && (
+        <Form.Dropdown
+          id="encoderSpeed"
+          title="Encoding Speed"
+          value={encoderSpeed}
+          onChange={(value) => setEncoderSpeed(value as EncoderSpeed)}
+        >
+          {ENCODER_SPEEDS.map((speed) => (
+            <Form.Dropdown.Item key={speed.value} value={speed.value} title={speed.title} />
+          ))}
         </Form.Dropdown>
       )}
       {downloadType === "mp3_audio" && (
@@ -785,29 +832,220 @@ export default function Command() {
           <Form.Dropdown.Item value="320K" title="CBR 320 kbps" />
         </Form.Dropdown>
       )}
+      {usesAudioBitrate(downloadType) && (
+        <Form.Dropdown id="audioBitrate" title="Audio Bitrate" value={audioBitrate} onChange={setAudioBitrate}>
+          {AUDIO_BITRATES.map((bitrate) => (
+            <Form.Dropdown.Item key={bitrate} value={bitrate} title={`${parseInt(bitrate)} kbps`} />
+          ))}
+        </Form.Dropdown>
+      )}
+      <PostProcessFields
+        value={postProcessing}
+        onChange={setPostProcessing}
+        isVideo={isVideoDownload}
+        canEmbedThumbnail={supportsThumbnail(downloadType)}
+      />
+      {!playlistMode && (
+        <>
+          <Form.Separator />
+          <Form.TextField
+            id="clipStart"
+            title="Start Time"
+            placeholder="e.g., 1:23, 83 or 1m23s (optional)"
+            value={clipStart}
+            error={clipError.start}
+            onChange={(value) => {
+              setClipStart(value);
+              setClipError({});
+            }}
+            onBlur={validateClip}
+          />
+          <Form.TextField
+            id="clipEnd"
+            title="End Time"
+            placeholder="e.g., 1:53 (optional)"
+            value={clipEnd}
+            error={clipError.end}
+            onChange={(value) => {
+              setClipEnd(value);
+              setClipError({});
+            }}
+            onBlur={validateClip}
+          />
+          {(clipStart.trim() || clipEnd.trim()) && (
+            <Form.Checkbox
+              id="exactCuts"
+              label="Cut exactly at these times (re-encodes around the cuts)"
+              value={exactCuts}
+              onChange={setExactCuts}
+            />
+          )}
+          {!clipStart.trim() && !clipEnd.trim() && videoInfo?.chapters && videoInfo.chapters.length > 0 && (
+            <Form.Checkbox
+              id="splitChapters"
+              title="Chapters"
+              label={`Split into ${videoInfo.chapters.length} files, one per chapter`}
+              value={splitChapters}
+              onChange={setSplitChapters}
+            />
+          )}
+        </>
+      )}
       <Form.Separator />
-      <Form.TextField
+      <Form.Checkbox
+        id="subtitlesEnabled"
+        title="Subtitles"
+        label="Download subtitles"
+        value={subtitlesEnabled}
+        onChange={setSubtitlesEnabled}
+      />
+      {subtitlesEnabled && (
+        <>
+          <Form.Dropdown
+            id="subtitleSource"
+            title="Subtitle Source"
+            value={subtitleSource}
+            onChange={(value) => setSubtitleSource(value as SubtitleSource)}
+          >
+            <Form.Dropdown.Item value="manual" title="Uploaded Subtitles" />
+            <Form.Dropdown.Item value="auto" title="Auto-Generated Captions" />
+            <Form.Dropdown.Item value="both" title="Uploaded, Then Auto-Generated" />
+          </Form.Dropdown>
+          {playlistMode ? (
+            <Form.TextField
+              id="subtitleLanguages"
+              title="Languages"
+              placeholder="e.g., en, de, es"
+              info="Language codes applied to every playlist item"
+              value={subtitleLanguages.join(", ")}
+              onChange={(value) =>
+                setSubtitleLanguages(
+                  value
+                    .split(",")
+                    .map((code) => code.trim())
+                    .filter(Boolean),
+                )
+              }
+            />
+          ) : (
+            <Form.TagPicker
+              id="subtitleLanguages"
+              title="Languages"
+              value={subtitleLanguages}
+              onChange={setSubtitleLanguages}
+            >
+              {availableSubtitleLanguages.map((language) => (
+                <Form.TagPicker.Item
+                  key={language.code}
+                  value={language.code}
+                  title={`${language.name} (${language.code})`}
+                />
+              ))}
+            </Form.TagPicker>
+          )}
+          {!playlistMode && videoInfo && availableSubtitleLanguages.length === 0 && (
+            <Form.Description text="⚠️ This video has no subtitles from the selected source." />
+          )}
+          {subtitleMode !== "burn" && (
+            <Form.Dropdown
+              id="subtitleFormat"
+              title="Subtitle Format"
+              value={subtitleFormat}
+              onChange={(value) => setSubtitleFormat(value as SubtitleFormat)}
+            >
+              <Form.Dropdown.Item value="srt" title="SRT" />
+              <Form.Dropdown.Item value="vtt" title="WebVTT" />
+              <Form.Dropdown.Item value="ass" title="ASS" />
+            </Form.Dropdown>
+          )}
+          {isVideoDownload && (
+            <Form.Dropdown
+              id="subtitleMode"
+              title="Subtitle Output"
+              value={subtitleMode}
+              onChange={(value) => setSubtitleMode(value as SubtitleMode)}
+            >
+              <Form.Dropdown.Item value="sidecar" title="Separate Files Next to the Video" />
+              <Form.Dropdown.Item value="embed" title="Embed as Soft Subtitles" />
+              {!playlistMode && <Form.Dropdown.Item value="burn" title="Burn Into the Video" />}
+            </Form.Dropdown>
+          )}
+          {subtitleMode === "burn" && (
+            <Form.Description text="💡 Burning re-encodes the video with the first selected language drawn onto the picture." />
+          )}
+        </>
+      )}
+      <Form.Separator />
+      <Form.FilePicker
         id="outputPath"
         title="Output Folder"
-        placeholder="e.g., /Users/username/Downloads"
-        value={outputPath}
-        onChange={setOutputPath}
+        allowMultipleSelection={false}
+        canChooseDirectories
+        canChooseFiles={false}
+        value={[outputPath]}
+        onChange={(paths) => paths[0] && setOutputPath(paths[0])}
       />
       {estimatedSize && <Form.Description text={`📊 Estimated file size: ${estimatedSize}`} />}
-      {videoInfo && videoInfo.duration && (
+      {!playlistMode && videoInfo && videoInfo.duration && (
         <Form.Description
           text={`🎬 Duration: ${Math.floor(videoInfo.duration / 60)}:${(videoInfo.duration % 60).toString().padStart(2, "0")} | Title: ${videoInfo.title?.substring(0, 50)}${(videoInfo.title?.length || 0) > 50 ? "..." : ""}`}
         />
       )}
+      {playlistMode && playlistInfo && (
+        <Form.Description
+          text={`🎬 Total duration: ${formatDuration(
+            playlistInfo.entries
+              .filter((entry) => selectedItems.includes(String(entry.index)))
+              .reduce((total, entry) => total + (entry.duration || 0), 0),
+          )} | Saved to: ${path.join(outputPath, playlistInfo.title)}`}
+        />
+      )}
       <Form.Description text={`Files will be saved to: ${outputPath}`} />
-      {(downloadType === "mp4_video_audio" || downloadType === "mp4_video_only") && compressionLevel !== "none" && (
+      <Form.TextField
+        id="filenameTemplate"
+        title="File Name"
+        placeholder={DEFAULT_FILENAME_TEMPLATE}
+        info={`yt-dlp output template without the extension; use / for folders.\n\n${FILENAME_PLACEHOLDERS.map(
+          ({ placeholder, description }) => `${placeholder}: ${description}`,
+        ).join("\n")}`}
+        value={filenameTemplate}
+        error={filenameTemplateError}
+        onChange={(value) => {
+          setFilenameTemplate(value);
+          setFilenameTemplateError(validateFilenameTemplate(value));
+        }}
+      />
+      {!playlistMode && videoInfo && !filenameTemplateError && (
+        <Form.Description
+          title="Preview"
+          text={renderFilenamePreview(filenameTemplate, videoInfo, getOutputExtension(downloadType), safeFilenames)}
+        />
+      )}
+      {playlistMode && playlistInfo && (
+        <Form.Description title="Preview" text={`${playlistInfo.title}/01 - ${filenameTemplate}`} />
+      )}
+      <Form.Dropdown
+        id="collisionPolicy"
+        title="If File Exists"
+        value={collisionPolicy}
+        onChange={(value) => setCollisionPolicy(value as CollisionPolicy)}
+      >
+        <Form.Dropdown.Item value="skip" title="Skip the Download" />
+        <Form.Dropdown.Item value="suffix" title="Add a Number, e.g. Title (2)" />
+        <Form.Dropdown.Item value="overwrite" title="Overwrite It" />
+      </Form.Dropdown>
+      <Form.Checkbox
+        id="safeFilenames"
+        label="Remove emoji and special characters from names"
+        value={safeFilenames}
+        onChange={setSafeFilenames}
+      />
+      {isVideoDownload && compressionLevel !== "none" && (
         <Form.Description text="💡 Compression will reduce file size but may take longer to process." />
       )}
-      {(downloadType === "mp4_video_audio" || downloadType === "mp4_video_only") &&
-        (videoQuality === "2160p" || videoQuality === "1440p") && (
-          <Form.Description text="⚠️ High-resolution videos (2K/4K) may not be available for all videos and will result in larger file sizes." />
-        )}
-      {isLoading && <Form.Description text="Download in progress... this may take a few moments." />}
+      {isVideoDownload && (videoQuality === "2160p" || videoQuality === "1440p") && (
+        <Form.Description text="⚠️ High-resolution videos (2K/4K) may not be available for all videos and will result in larger file sizes." />
+      )}
     </Form>
   );
 }
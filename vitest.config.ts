@@ -0,0 +1,12 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // @raycast/api only works inside Raycast
+    alias: { "@raycast/api": path.resolve(__dirname, "src/__mocks__/raycast-api.ts") },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
+});